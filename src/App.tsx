@@ -1,13 +1,153 @@
-// src/App.tsx
-import React from 'react';
+import React, { useState } from 'react';
 import TreeView from './TreeView';
+import { TreeDragProvider } from './TreeDragContext';
+import { nodesFromExternalDrop } from './treeFormats';
+import { createMemoryChannel } from './treeTransport';
+import { createInitialTree, createLargeTree, simulateApiCall, simulatePagedApiCall, createMockBackend, MockNodeData } from './mockData';
+import { ContextMenuItems, LoadChildren, PersistOptions, SortMode, TreeColumn, TreeData } from './types';
 import './styles.css';
 
+const loadChildren: LoadChildren = (node, level, options) => {
+  const { pagedChildCount } = (node.data ?? {}) as MockNodeData;
+  return pagedChildCount ? simulatePagedApiCall(node.id, pagedChildCount, options) : simulateApiCall(node.id, level, options.signal);
+};
+const persistOptions: PersistOptions = { key: 'tree-view-demo' };
+const mockBackend = createMockBackend();
+
+// Adds an entry after the built-in ones
+const contextMenuItems: ContextMenuItems = (node, defaultItems) => [
+  ...defaultItems,
+  { type: 'separator', id: 'demo-separator' },
+  { id: 'copy-name', label: 'Copy name to clipboard', onSelect: () => navigator.clipboard?.writeText(node.name) },
+];
+
+// Tree-table demo columns, read from the mock nodes' file details
+const fileColumns: TreeColumn<MockNodeData>[] = [
+  {
+    key: 'size',
+    header: 'Size',
+    width: 100,
+    sortable: true,
+    render: node => (node.data?.size !== undefined ? `${Math.ceil(node.data.size / 1024).toLocaleString()} KB` : null),
+  },
+  { key: 'owner', header: 'Owner', width: 110, sortable: true },
+  {
+    key: 'modified',
+    header: 'Modified',
+    width: 130,
+    sortable: true,
+    render: node => (node.data?.modified ? new Date(node.data.modified).toLocaleDateString() : null),
+  },
+];
+
 function App() {
+  const [treeData, setTreeData] = useState<TreeData>(createInitialTree);
+  const [isLargeDemo, setIsLargeDemo] = useState(false);
+  const [isCheckboxDemo, setIsCheckboxDemo] = useState(false);
+  const [isBackendDemo, setIsBackendDemo] = useState(false);
+  const [isTwoPaneDemo, setIsTwoPaneDemo] = useState(false);
+  const [sortMode, setSortMode] = useState<SortMode>('none');
+  const [isPointerDragDemo, setIsPointerDragDemo] = useState(() => window.matchMedia('(pointer: coarse)').matches); // On by default on touch screens
+  const [isCollaborationDemo, setIsCollaborationDemo] = useState(false);
+  const [isTableDemo, setIsTableDemo] = useState(false);
+  // Both replicas start from the same fully loaded tree; lazy children would get different ids in each
+  const [collaborationTree] = useState(() => createLargeTree(3, 3, 2));
+  const [collaborationChannel] = useState(() => createMemoryChannel(2, 300));
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [demoMessage, setDemoMessage] = useState<string | null>(null);
+
+  const handleLargeDemoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setIsLargeDemo(e.target.checked);
+    setTreeData(e.target.checked ? createLargeTree(10, 20, 3) : createInitialTree());
+  };
+
   return (
     <div className="App">
       <h1>Tree View Component</h1>
-      <TreeView />
+      <label className="demo-option">
+        <input type="checkbox" checked={isLargeDemo} onChange={handleLargeDemoChange} />
+        Large tree (4,210 nodes, virtualized)
+      </label>
+      <label className="demo-option">
+        <input type="checkbox" checked={isCheckboxDemo} onChange={e => setIsCheckboxDemo(e.target.checked)} />
+        Checkboxes{isCheckboxDemo && ` (${checkedIds.length} leaves checked)`}
+      </label>
+      <label className="demo-option">
+        <input type="checkbox" checked={isBackendDemo} onChange={e => setIsBackendDemo(e.target.checked)} />
+        Save changes to a slow, unreliable backend
+      </label>
+      <label className="demo-option">
+        <input type="checkbox" checked={isTwoPaneDemo} onChange={e => setIsTwoPaneDemo(e.target.checked)} />
+        Second tree to drag nodes into (hold Ctrl or Option to copy)
+      </label>
+      <label className="demo-option">
+        <input type="checkbox" checked={isPointerDragDemo} onChange={e => setIsPointerDragDemo(e.target.checked)} />
+        Pointer drag engine (works with touch; long-press a row to pick it up)
+      </label>
+      <label className="demo-option">
+        <input type="checkbox" checked={isCollaborationDemo} onChange={e => setIsCollaborationDemo(e.target.checked)} />
+        Two replicas editing the same tree (changes reach the other one after 300 ms)
+      </label>
+      <label className="demo-option">
+        <input type="checkbox" checked={isTableDemo} onChange={e => setIsTableDemo(e.target.checked)} />
+        Tree table (size, owner and modified columns; click a header to sort, drag its edge to resize)
+      </label>
+      <label className="demo-option">
+        Sort{' '}
+        <select value={sortMode} onChange={e => setSortMode(e.target.value as SortMode)}>
+          <option value="none">Manual order</option>
+          <option value="alpha">Alphabetical, folders first</option>
+          <option value="natural">Natural (2 before 10), folders first</option>
+        </select>
+      </label>
+      <TreeDragProvider>
+        <div className={isTwoPaneDemo ? 'demo-panes' : undefined}>
+          <TreeView
+            data={treeData}
+            onChange={setTreeData}
+            loadChildren={loadChildren}
+            persist={isLargeDemo ? undefined : persistOptions} // The large demo tree is regenerated instead of saved
+            checkboxes={isCheckboxDemo}
+            checkedIds={checkedIds}
+            onCheckedChange={setCheckedIds}
+            virtualized={isLargeDemo}
+            showSearch
+            showImportExport
+            showExpandControls
+            showBreadcrumb
+            columns={isTableDemo ? fileColumns : undefined}
+            hashParam="node"
+            sort={sortMode}
+            dragBackend={isPointerDragDemo ? 'pointer' : 'html5'}
+            autoLoadMore
+            contextMenuItems={contextMenuItems}
+            onExternalDrop={nodesFromExternalDrop}
+            {...(isBackendDemo ? mockBackend : {})}
+            onActionRefused={refusal => setDemoMessage(refusal.message)}
+            onError={error => setDemoMessage(error.message)}
+            height={600}
+          />
+          {isTwoPaneDemo && (
+            <TreeView
+              defaultData={[]}
+              aria-label="Destination"
+              onExternalDrop={nodesFromExternalDrop}
+              onActionRefused={refusal => setDemoMessage(refusal.message)}
+            />
+          )}
+        </div>
+      </TreeDragProvider>
+      {isCollaborationDemo && (
+        <div className="demo-panes demo-replicas">
+          <TreeView defaultData={collaborationTree} transport={collaborationChannel[0]} actorId="replica-1" aria-label="Replica 1" />
+          <TreeView defaultData={collaborationTree} transport={collaborationChannel[1]} actorId="replica-2" aria-label="Replica 2" />
+        </div>
+      )}
+      {demoMessage && (
+        <p className="demo-message" role="status">
+          {demoMessage} <button onClick={() => setDemoMessage(null)} className="icon-button" title="Dismiss">×</button>
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,63 @@
+// src/LoadMoreRow.tsx
+import React, { useRef, useEffect } from 'react';
+import { FaSpinner } from 'react-icons/fa';
+
+const Spinner = FaSpinner as React.FC<React.SVGProps<SVGSVGElement>>;
+
+interface LoadMoreRowProps {
+  level: number; // Level of the children it loads
+  remainingCount?: number;
+  isLoading: boolean;
+  error?: string; // Why the last attempt failed
+  autoLoad: boolean; // Load as soon as the row scrolls into view
+  onLoadMore: () => void;
+  role?: 'treeitem' | 'row'; // 'row' in a tree table, where the content becomes its only cell
+}
+
+// The last row of a partially loaded child list, fetching the next page on click (or on sight with autoLoad)
+const LoadMoreRow: React.FC<LoadMoreRowProps> = ({ level, remainingCount, isLoading, error, autoLoad, onLoadMore, role = 'treeitem' }) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  // A fresh observer after every load reports at once whether the row is still in view, so a
+  // tall viewport keeps loading pages until it is filled. Failed loads wait for Retry.
+  useEffect(() => {
+    const row = rowRef.current;
+    if (!autoLoad || isLoading || error || !row) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current();
+    });
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [autoLoad, isLoading, error]);
+
+  const label = remainingCount !== undefined ? `Load more (${remainingCount.toLocaleString()} remaining)` : 'Load more';
+
+  return (
+    <div
+      ref={rowRef}
+      className={`tree-node-wrapper level-${level}`}
+      style={{ '--level': level } as React.CSSProperties}
+      role={role}
+      aria-level={level + 1}
+      aria-selected={false}
+      aria-busy={isLoading || undefined}
+    >
+      <div className={`tree-load-more ${error ? 'has-error' : ''}`} role={role === 'row' ? 'gridcell' : undefined}>
+        {isLoading ? (
+          <span className="load-more-status"><Spinner className="spinner" /> Loading…</span>
+        ) : error ? (
+          <>
+            <span className="load-error-message" role="alert">Failed to load more: {error}</span>
+            <button onClick={onLoadMore} className="retry-button">Retry</button>
+          </>
+        ) : (
+          <button onClick={onLoadMore} className="load-more-button">{label}</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoadMoreRow;
@@ -0,0 +1,67 @@
+// src/NodeNameInput.tsx
+import React, { useState, useRef, useId } from 'react';
+
+interface NodeNameInputProps {
+  initialName: string;
+  getError: (name: string) => string | null; // Message shown under the input, or null when the name is fine
+  // fromKeyboard is true for Enter/Escape and false when focus left the field, so callers only move focus in the first case
+  onCommit: (name: string, fromKeyboard: boolean) => void; // Called with the trimmed name, only when it changed
+  onCancel: (fromKeyboard: boolean) => void;
+  'aria-label': string;
+}
+
+// Text input for naming a node. Enter commits a valid name, Escape cancels, and leaving the field commits
+// a valid name or cancels otherwise. An invalid name is reported inline as it is typed.
+const NodeNameInput: React.FC<NodeNameInputProps> = ({ initialName, getError, onCommit, onCancel, 'aria-label': ariaLabel }) => {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+  const isFinishedRef = useRef(false); // Enter/Escape move focus, and the blur that follows must not finish twice
+  const errorId = useId();
+
+  const finish = (shouldCommit: boolean, fromKeyboard: boolean) => {
+    if (isFinishedRef.current) return;
+    isFinishedRef.current = true;
+    const trimmedName = name.trim();
+    if (shouldCommit && trimmedName !== initialName) {
+      onCommit(trimmedName, fromKeyboard);
+    } else {
+      onCancel(fromKeyboard);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setName(e.target.value);
+    setError(getError(e.target.value));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      const nextError = getError(name);
+      setError(nextError);
+      if (!nextError) finish(true, true); // Stay in the field until the name is fixed
+    }
+    if (e.key === 'Escape') {
+      finish(false, true);
+    }
+  };
+
+  return (
+    <>
+      <input
+        type="text"
+        value={name}
+        onChange={handleChange}
+        onBlur={() => finish(!getError(name), false)}
+        onKeyDown={handleKeyDown}
+        autoFocus
+        className={`node-edit-input ${error ? 'is-invalid' : ''}`}
+        aria-label={ariaLabel}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={error ? errorId : undefined}
+      />
+      {error && <span id={errorId} className="node-name-error" role="alert">{error}</span>}
+    </>
+  );
+};
+
+export default NodeNameInput;
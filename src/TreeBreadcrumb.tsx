@@ -0,0 +1,32 @@
+// src/TreeBreadcrumb.tsx
+import React from 'react';
+import { FaChevronRight } from 'react-icons/fa';
+
+interface TreeBreadcrumbProps {
+  path: { id: string; name: string }[]; // From a root down to the focused node; empty when nothing has focus
+  onSelect: (nodeId: string) => void;
+}
+
+// The focused node's ancestors as links; clicking one jumps back up to it
+const TreeBreadcrumb: React.FC<TreeBreadcrumbProps> = ({ path, onSelect }) => (
+  <nav className="tree-toolbar tree-breadcrumb" aria-label="Breadcrumb">
+    {path.length === 0 ? (
+      <span className="tree-breadcrumb-empty">No node focused</span>
+    ) : (
+      <ol>
+        {path.map((node, index) => (
+          <li key={node.id}>
+            {index > 0 && <FaChevronRight className="tree-breadcrumb-separator" aria-hidden="true" />}
+            {index === path.length - 1 ? (
+              <span aria-current="location">{node.name}</span>
+            ) : (
+              <button onClick={() => onSelect(node.id)} className="tree-breadcrumb-link">{node.name}</button>
+            )}
+          </li>
+        ))}
+      </ol>
+    )}
+  </nav>
+);
+
+export default TreeBreadcrumb;
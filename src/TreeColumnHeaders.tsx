@@ -0,0 +1,81 @@
+// src/TreeColumnHeaders.tsx
+import React from 'react';
+import { ColumnSort, TreeColumn } from './types';
+import { FaSort, FaSortUp, FaSortDown } from 'react-icons/fa';
+
+const MIN_COLUMN_WIDTH = 48; // Narrowest a column can be resized to
+const KEYBOARD_RESIZE_STEP = 10; // px per arrow key press on a resize handle
+
+interface TreeColumnHeadersProps {
+  columns: TreeColumn[];
+  widths: number[]; // Current width of each column, in px
+  treeColumnHeader: React.ReactNode; // Header of the first column, which holds the tree
+  columnSort: ColumnSort | null;
+  onSort: (key: string) => void;
+  onResize: (key: string, width: number) => void;
+}
+
+// The header row of a tree table: sortable column headers, each with a handle to drag (or arrow) its width
+const TreeColumnHeaders: React.FC<TreeColumnHeadersProps> = ({ columns, widths, treeColumnHeader, columnSort, onSort, onResize }) => {
+  // The tree's column takes up the rest of the row, so each handle sits on the left edge of its column: dragging it
+  // (or arrowing it) left widens the column. Pointer capture keeps the moves coming once the pointer leaves the handle.
+  const startResize = (e: React.PointerEvent<HTMLDivElement>, column: TreeColumn, startWidth: number) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const handle = e.currentTarget;
+    const startX = e.clientX;
+    handle.setPointerCapture(e.pointerId);
+    const handleMove = (moveEvent: PointerEvent) => onResize(column.key, Math.max(MIN_COLUMN_WIDTH, startWidth - (moveEvent.clientX - startX)));
+    const handleEnd = () => {
+      handle.removeEventListener('pointermove', handleMove);
+      handle.removeEventListener('pointerup', handleEnd);
+      handle.removeEventListener('pointercancel', handleEnd);
+    };
+    handle.addEventListener('pointermove', handleMove);
+    handle.addEventListener('pointerup', handleEnd);
+    handle.addEventListener('pointercancel', handleEnd);
+  };
+
+  const handleResizeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, column: TreeColumn, width: number) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    onResize(column.key, Math.max(MIN_COLUMN_WIDTH, width + (e.key === 'ArrowLeft' ? KEYBOARD_RESIZE_STEP : -KEYBOARD_RESIZE_STEP)));
+  };
+
+  return (
+    <div className="tree-column-headers" role="row">
+      <div className="tree-column-header is-tree-column" role="columnheader">{treeColumnHeader}</div>
+      {columns.map((column, index) => {
+        const direction = columnSort?.key === column.key ? columnSort.direction : null;
+        const SortIcon = direction === 'ascending' ? FaSortUp : direction === 'descending' ? FaSortDown : FaSort;
+        return (
+          <div
+            key={column.key}
+            className="tree-column-header"
+            role="columnheader"
+            aria-sort={column.sortable ? direction ?? 'none' : undefined}
+            style={{ width: widths[index] }}
+          >
+            {column.sortable ? (
+              <button onClick={() => onSort(column.key)} className="tree-column-sort-button">
+                {column.header} <SortIcon className="tree-column-sort-icon" aria-hidden="true" />
+              </button>
+            ) : column.header}
+            <div
+              className="tree-column-resizer"
+              role="separator"
+              aria-orientation="vertical"
+              aria-label="Resize column"
+              aria-valuenow={widths[index]}
+              tabIndex={0}
+              onPointerDown={e => startResize(e, column, widths[index])}
+              onKeyDown={e => handleResizeKeyDown(e, column, widths[index])}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TreeColumnHeaders;
@@ -0,0 +1,121 @@
+// src/TreeContextMenu.tsx
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { ContextMenuItem } from './types';
+
+interface TreeContextMenuProps {
+  items: ContextMenuItem[];
+  position: { x: number; y: number }; // Viewport coordinates of the top-left corner
+  'aria-label': string;
+  onSelect: (item: ContextMenuItem) => void;
+  onClose: (fromKeyboard: boolean) => void; // Escape or Tab; clicking elsewhere closes it with fromKeyboard false
+}
+
+// Helper to check whether an entry can be activated
+const isEnabledAction = (item: ContextMenuItem) => item.type !== 'separator' && !item.disabled;
+
+// A floating menu of actions for a row. Arrow keys, Home and End move between the enabled entries and
+// Enter or Space activates one, as in a native menu.
+const TreeContextMenu: React.FC<TreeContextMenuProps> = ({ items, position, 'aria-label': ariaLabel, onSelect, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(() => items.findIndex(isEnabledAction));
+  const [adjustedPosition, setAdjustedPosition] = useState(position);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Keep the menu inside the viewport, opening up or to the left near the edges
+  useLayoutEffect(() => {
+    const rect = menuRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setAdjustedPosition({
+      x: position.x + rect.width > window.innerWidth ? Math.max(0, position.x - rect.width) : position.x,
+      y: position.y + rect.height > window.innerHeight ? Math.max(0, position.y - rect.height) : position.y,
+    });
+  }, [position]);
+
+  useEffect(() => {
+    menuRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)?.focus();
+  }, [activeIndex]);
+
+  // A press anywhere outside the menu, or scrolling the page, dismisses it
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onCloseRef.current(false);
+    };
+    const handleScroll = (event: Event) => {
+      if (!menuRef.current?.contains(event.target as Node)) onCloseRef.current(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('scroll', handleScroll, true);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('scroll', handleScroll, true);
+    };
+  }, []);
+
+  // Index of the next enabled entry from `from` in a direction, wrapping around
+  const findEnabledIndex = (from: number, direction: 1 | -1) => {
+    for (let step = 1; step <= items.length; step++) {
+      const index = (from + direction * step + items.length) % items.length;
+      if (isEnabledAction(items[index])) return index;
+    }
+    return -1;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex(findEnabledIndex(activeIndex, 1));
+        break;
+      case 'ArrowUp':
+        setActiveIndex(findEnabledIndex(activeIndex, -1));
+        break;
+      case 'Home':
+        setActiveIndex(findEnabledIndex(-1, 1));
+        break;
+      case 'End':
+        setActiveIndex(findEnabledIndex(items.length, -1));
+        break;
+      case 'Escape':
+      case 'Tab':
+        onClose(true);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="tree-context-menu"
+      role="menu"
+      aria-label={ariaLabel}
+      style={{ left: adjustedPosition.x, top: adjustedPosition.y }}
+      onKeyDown={handleKeyDown}
+      onContextMenu={e => e.preventDefault()}
+    >
+      {items.map((item, index) => item.type === 'separator' ? (
+        <div key={item.id} className="context-menu-separator" role="separator" />
+      ) : (
+        <button
+          key={item.id}
+          data-index={index}
+          className="context-menu-item"
+          role="menuitem"
+          tabIndex={index === activeIndex ? 0 : -1}
+          disabled={item.disabled}
+          aria-disabled={item.disabled || undefined}
+          onClick={() => onSelect(item)}
+          onMouseEnter={() => !item.disabled && setActiveIndex(index)}
+        >
+          {item.icon && <span className="context-menu-icon" aria-hidden="true">{item.icon}</span>}
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TreeContextMenu;
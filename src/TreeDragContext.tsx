@@ -0,0 +1,26 @@
+// src/TreeDragContext.tsx
+import React, { createContext, useContext, useRef } from 'react';
+import { ITreeNode, NodeTransferInfo } from './types';
+
+// The MIME type dragged nodes are serialized under, so a tree in another window can still receive copies
+export const TREE_NODES_MIME = 'application/x-tree-nodes+json';
+
+// A drag that started in one TreeView, as seen by the others under the same TreeDragProvider
+export interface SharedDrag {
+  sourceTreeId: string;
+  nodes: ITreeNode[]; // Snapshots of the dragged subtrees, in document order
+  // The nodes to add at the drop target, after the source's transformOutgoing, or null if the source refuses
+  releaseNodes: (info: NodeTransferInfo) => ITreeNode[] | null;
+  removeFromSource: () => void; // Completes a move once the target has added the nodes
+}
+
+const TreeDragContext = createContext<{ current: SharedDrag | null } | null>(null);
+
+// Lets every TreeView inside it drag nodes into the others
+export const TreeDragProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const dragRef = useRef<SharedDrag | null>(null); // A ref: hovering other trees must not re-render them
+  return <TreeDragContext.Provider value={dragRef}>{children}</TreeDragContext.Provider>;
+};
+
+// The drag shared between trees, or null outside a TreeDragProvider
+export const useSharedDrag = () => useContext(TreeDragContext);
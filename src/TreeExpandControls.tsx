@@ -0,0 +1,34 @@
+// src/TreeExpandControls.tsx
+import React, { useState } from 'react';
+import { FaPlusSquare, FaMinusSquare } from 'react-icons/fa';
+
+const DEPTH_OPTIONS = [1, 2, 3, 4, 5];
+
+interface TreeExpandControlsProps {
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+  onExpandToDepth: (depth: number) => void;
+}
+
+// Toolbar for expanding or collapsing the whole tree at once
+const TreeExpandControls: React.FC<TreeExpandControlsProps> = ({ onExpandAll, onCollapseAll, onExpandToDepth }) => {
+  const [depth, setDepth] = useState(DEPTH_OPTIONS[0]);
+
+  return (
+    <div className="tree-toolbar tree-expand-controls">
+      <button onClick={onExpandAll} className="toolbar-button"><FaPlusSquare /> Expand all</button>
+      <button onClick={onCollapseAll} className="toolbar-button"><FaMinusSquare /> Collapse all</button>
+      <label className="tree-depth-picker">
+        Levels{' '}
+        <select value={depth} onChange={e => setDepth(Number(e.target.value))}>
+          {DEPTH_OPTIONS.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </label>
+      <button onClick={() => onExpandToDepth(depth)} className="toolbar-button">Expand to level</button>
+    </div>
+  );
+};
+
+export default TreeExpandControls;
@@ -0,0 +1,167 @@
+// src/TreeImportExport.tsx
+import React, { useState } from 'react';
+import { ImportError, ImportOptions, ImportResult, TreeFormat } from './types';
+import { FORMAT_EXTENSIONS, getFormatForFileName } from './treeFormats';
+import { FaFileImport, FaFileExport, FaTimes } from 'react-icons/fa';
+
+const FORMAT_LABELS: Record<TreeFormat, string> = {
+  json: 'JSON',
+  text: 'Indented text',
+  markdown: 'Markdown outline',
+  csv: 'CSV',
+  opml: 'OPML',
+};
+
+interface TreeImportExportProps {
+  targetNode: { id: string; name: string } | null; // The selected node: where merged imports go and what "export selection" exports
+  onImport: (input: string, format: TreeFormat, options: ImportOptions) => Promise<ImportResult>;
+  onExport: (format: TreeFormat, nodeId?: string) => string;
+}
+
+const TreeImportExport: React.FC<TreeImportExportProps> = ({ targetNode, onImport, onExport }) => {
+  const [panel, setPanel] = useState<'import' | 'export' | null>(null);
+  const [format, setFormat] = useState<TreeFormat>('json');
+  const [input, setInput] = useState('');
+  const [mode, setMode] = useState<'replace' | 'merge'>('merge');
+  const [isExportingSelection, setIsExportingSelection] = useState(false);
+  const [errors, setErrors] = useState<ImportError[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isConfirmingReplace, setIsConfirmingReplace] = useState(false); // A replace import asks once more before it runs
+
+  const exportNodeId = isExportingSelection && targetNode ? targetNode.id : undefined;
+  const output = panel === 'export' ? onExport(format, exportNodeId) : '';
+
+  const togglePanel = (nextPanel: 'import' | 'export') => {
+    setPanel(panel === nextPanel ? null : nextPanel);
+    setErrors([]);
+    setIsConfirmingReplace(false);
+  };
+
+  // Reads an opened file into the text box, picking the format from its extension when it has a known one
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFormat(getFormatForFileName(file.name) ?? format);
+    setInput(await file.text());
+    setErrors([]);
+    e.target.value = ''; // Lets the same file be opened again
+  };
+
+  const handleImport = async () => {
+    setIsConfirmingReplace(false);
+    setIsImporting(true);
+    try {
+      const result = await onImport(input, format, { mode, parentId: mode === 'merge' ? targetNode?.id ?? null : null });
+      setErrors(result.errors);
+      if (result.errors.length === 0) {
+        setInput('');
+        setPanel(null);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([output], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tree.${FORMAT_EXTENSIONS[format]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="tree-import-export">
+      <div className="tree-toolbar">
+        <button onClick={() => togglePanel('import')} className={`toolbar-button ${panel === 'import' ? 'is-active' : ''}`}>
+          <FaFileImport /> Import
+        </button>
+        <button onClick={() => togglePanel('export')} className={`toolbar-button ${panel === 'export' ? 'is-active' : ''}`}>
+          <FaFileExport /> Export
+        </button>
+      </div>
+
+      {panel && (
+        <div className="tree-transfer-panel" role="region" aria-label={panel === 'import' ? 'Import nodes' : 'Export nodes'}>
+          <div className="tree-transfer-options">
+            <label>
+              Format{' '}
+              <select value={format} onChange={e => { setFormat(e.target.value as TreeFormat); setErrors([]); }}>
+                {(Object.keys(FORMAT_LABELS) as TreeFormat[]).map(key => (
+                  <option key={key} value={key}>{FORMAT_LABELS[key]}</option>
+                ))}
+              </select>
+            </label>
+            {panel === 'export' ? (
+              <label>
+                <input type="checkbox" checked={isExportingSelection} disabled={!targetNode} onChange={e => setIsExportingSelection(e.target.checked)} />
+                {targetNode ? `Only "${targetNode.name}"` : 'Only the selected node'}
+              </label>
+            ) : (
+              <>
+                <label>
+                  <input type="radio" checked={mode === 'merge'} onChange={() => { setMode('merge'); setIsConfirmingReplace(false); }} />
+                  {targetNode ? `Add under "${targetNode.name}"` : 'Add at root level'}
+                </label>
+                <label>
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  Replace tree
+                </label>
+              </>
+            )}
+            <button onClick={() => setPanel(null)} className="icon-button" title="Close"><FaTimes /></button>
+          </div>
+
+          {panel === 'export' ? (
+            <>
+              <textarea value={output} readOnly className="tree-transfer-text" aria-label="Exported nodes" />
+              <div className="tree-transfer-actions">
+                <button onClick={() => navigator.clipboard?.writeText(output)} className="toolbar-button">Copy</button>
+                <button onClick={handleDownload} className="toolbar-button">Download</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <textarea
+                value={input}
+                onChange={e => { setInput(e.target.value); setErrors([]); setIsConfirmingReplace(false); }}
+                placeholder={`Paste ${FORMAT_LABELS[format]} here, or open a file`}
+                className={`tree-transfer-text ${errors.length > 0 ? 'is-invalid' : ''}`}
+                aria-label="Nodes to import"
+                aria-invalid={errors.length > 0 || undefined}
+              />
+              {errors.length > 0 && (
+                <ul className="tree-import-errors" role="alert">
+                  {errors.map((error, index) => (
+                    <li key={index}>{error.line !== undefined && <strong>Line {error.line}: </strong>}{error.message}</li>
+                  ))}
+                </ul>
+              )}
+              {isConfirmingReplace ? (
+                <div className="tree-transfer-actions tree-import-confirm" role="alert">
+                  <span>Replace the whole tree with the imported nodes? This cannot be undone.</span>
+                  <button onClick={handleImport} disabled={isImporting} className="toolbar-button">Replace tree</button>
+                  <button onClick={() => setIsConfirmingReplace(false)} className="toolbar-button">Cancel</button>
+                </div>
+              ) : (
+                <div className="tree-transfer-actions">
+                  <input type="file" accept=".json,.txt,.md,.csv,.opml,.xml" onChange={handleFileChange} aria-label="Open file" />
+                  <button
+                    onClick={mode === 'replace' ? () => setIsConfirmingReplace(true) : handleImport}
+                    disabled={!input.trim() || isImporting}
+                    className="toolbar-button"
+                  >
+                    Import
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreeImportExport;
@@ -0,0 +1,42 @@
+// src/TreeLoadStateContext.tsx
+import React, { createContext, useContext, useLayoutEffect, useState, useSyncExternalStore } from 'react';
+import { NodeLoadState } from './types';
+
+// The rows read their load state by id from here rather than through props, so that a load starting or failing
+// re-renders the row it is about instead of every memoized row in the tree
+interface LoadStateSource {
+  loadStates: Record<string, NodeLoadState>;
+  subscribe: (listener: () => void) => () => void;
+  notify: () => void;
+}
+
+const TreeLoadStateContext = createContext<LoadStateSource | null>(null);
+
+const createLoadStateSource = (loadStates: Record<string, NodeLoadState>): LoadStateSource => {
+  const listeners = new Set<() => void>();
+  return {
+    loadStates,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    notify: () => listeners.forEach(listener => listener()),
+  };
+};
+
+export const TreeLoadStateProvider: React.FC<{ loadStates: Record<string, NodeLoadState>; children: React.ReactNode }> = ({ loadStates, children }) => {
+  const [source] = useState(() => createLoadStateSource(loadStates));
+  source.loadStates = loadStates; // Rows rendered along with the tree read the new states straight away
+  useLayoutEffect(() => source.notify(), [source, loadStates]); // The others re-render only if their own state changed
+  return <TreeLoadStateContext.Provider value={source}>{children}</TreeLoadStateContext.Provider>;
+};
+
+const subscribeToNothing = () => () => {};
+
+// A node's load state, or undefined outside a TreeLoadStateProvider
+export const useNodeLoadState = (nodeId: string): NodeLoadState | undefined => {
+  const source = useContext(TreeLoadStateContext);
+  return useSyncExternalStore(source?.subscribe ?? subscribeToNothing, () => source?.loadStates[nodeId]);
+};
@@ -1,117 +1,214 @@
 // src/TreeNode.tsx
 import React, { useState, useRef, useEffect } from 'react';
-import { ITreeNode, DragItem } from './types';
-import { FaChevronRight, FaChevronDown, FaPlus, FaSpinner, FaEdit, FaTrash } from 'react-icons/fa';
+import { ITreeNode, CheckedState, NodeRenderer, NodeRenderState, DropPosition, DropTarget, SelectionModifiers, TreeColumn } from './types';
+import { DropZoneOptions, DropZoneProps, NodeProps, NodePropsOptions, ToggleProps } from './useTree';
+import NodeNameInput from './NodeNameInput';
+import LoadMoreRow from './LoadMoreRow';
+import { useNodeLoadState } from './TreeLoadStateContext';
+import { getColumnValue } from './treeSort';
+import { FaChevronRight, FaChevronDown, FaPlus, FaSpinner, FaEdit, FaTrash, FaSyncAlt, FaBan, FaFolder, FaFolderOpen, FaFileAlt } from 'react-icons/fa';
 
 const Spinner = FaSpinner as React.FC<React.SVGProps<SVGSVGElement>>;
 
 interface TreeNodeProps {
   node: ITreeNode;
   level: number;
-  onToggleExpand: (nodeId: string, currentIsExpanded: boolean, currentChildren: ITreeNode[] | true | undefined, currentLevel: number) => void;
+  flat?: boolean; // Render only this row; in virtualized mode TreeView renders descendants as separate rows
+  getNodeProps: (node: ITreeNode, options: NodePropsOptions) => NodeProps; // Role, ARIA attributes and the drag source
+  getToggleProps: (node: ITreeNode) => ToggleProps; // Shift+click toggles every descendant
+  getDropZoneProps: (targetNodeId: string | null, options: DropZoneOptions) => DropZoneProps;
+  onReloadChildren: (node: ITreeNode, level: number) => void;
+  onLoadMore: (nodeId: string) => void; // Fetches the next page of a partially loaded node
+  autoLoadMore: boolean;
+  posInSet: number; // 1-based position among siblings, for aria-posinset
+  setSize: number;
+  isSorted: boolean; // The row's siblings are sorted, so a drop can only go into the row, not above or below it
+  focusedNodeId: string | null; // The single row that is in the tab order (roving tabindex)
+  onFocusNode: (nodeId: string) => void;
+  editingNodeId: string | null;
+  onStartEditing: (nodeId: string) => void;
+  onStopEditing: () => void;
   onAddNode: (parentId: string | null) => void;
   onRemoveNode: (nodeId: string) => void;
   onEditNodeName: (nodeId: string, newName: string) => void;
-  onDragStart: (item: DragItem) => void;
-  onDragOver: (event: React.DragEvent<HTMLDivElement>, targetNodeId: string | null, dropPosition: 'above' | 'below' | 'child') => void;
+  getNameError: (parentId: string | null, name: string, nodeId?: string) => string | null; // Validates a new or changed name
+  draftParentId: string | null; // Node whose children end with the inline "new node" row, if any
+  draftBeforeId: string | null; // Node the inline "new node" row is shown above, when it isn't at the end of a child list
+  renderDraft: (level: number) => React.ReactNode;
+  onOpenContextMenu: (nodeId: string, position: { x: number; y: number }) => void;
+  cutNodeIds: ReadonlySet<string>; // Nodes waiting in the clipboard to be moved by a paste
+  onDragOver: (event: React.DragEvent<HTMLElement>, targetNodeId: string | null, dropPosition: DropPosition) => boolean; // Whether the drop is allowed
   onDragLeave: (event: React.DragEvent<HTMLDivElement>) => void;
-  onDrop: (event: React.DragEvent<HTMLDivElement>, targetNodeId: string | null, dropPosition: 'above' | 'below' | 'child') => void;
-  draggedItemId: string | null;
+  onDrop: (event: React.DragEvent<HTMLElement>, targetNodeId: string | null, dropPosition: DropPosition) => void;
+  onPointerDown?: (event: React.PointerEvent<HTMLDivElement>, nodeId: string) => void; // Set when the pointer drag engine replaces native drag events
+  dropTarget: DropTarget | null; // Where the current pointer drag would drop
+  draggedNodeIds: ReadonlySet<string>; // Every node in the current drag (empty when not dragging)
+  selectedNodeIds: ReadonlySet<string>;
+  onSelectNode: (nodeId: string, modifiers: SelectionModifiers) => void;
+  checkedStates: ReadonlyMap<string, CheckedState> | null; // null when checkboxes are off; checkable nodes only
+  onCheckNode: (nodeId: string, isChecked: boolean) => void;
+  searchMatches: ReadonlyMap<string, number[]> | null; // Matched character indexes per node while a search is active
+  currentMatchId: string | null;
+  revealedNodeId: string | null; // Highlighted for a moment after revealNode
+  renderLabel?: NodeRenderer; // Replaces the name (not while renaming)
+  renderIcon?: NodeRenderer; // Replaces the type icon
+  renderActions?: NodeRenderer; // Replaces the add, refresh, edit and remove buttons
+  renderLoading?: NodeRenderer; // Replaces the spinner shown in the toggle while children load
+  columns?: TreeColumn[]; // Tree-table mode: the row becomes a treegrid row with a cell per column after the tree's own
+  getNodeKey: (nodeId: string) => string; // React key for a row; stays put when a server id replaces a temporary one
+  pendingCounts: ReadonlyMap<string | null, number>; // Unsettled backend calls per node
+  syncErrors: ReadonlyMap<string | null, string>; // Why the last backend call about a node was rolled back
+  onDismissSyncError: (nodeId: string) => void;
 }
 
 const DRAG_OFFSET_THRESHOLD = 0.3; // Percentage of element height for 'above'/'below' vs 'child'
 
-const TreeNode: React.FC<TreeNodeProps> = ({
+// Which part of a row the pointer is over: the top and bottom edges drop next to the node, the middle into it.
+// Rows among sorted siblings are drop targets as a whole, since a node's place there follows from its name.
+export const getDropPosition = (rowRect: DOMRect, clientY: number, isSorted: boolean): DropPosition => {
+  const offset = clientY - rowRect.top;
+  if (isSorted) return 'child';
+  if (offset < rowRect.height * DRAG_OFFSET_THRESHOLD) return 'above';
+  if (offset > rowRect.height * (1 - DRAG_OFFSET_THRESHOLD)) return 'below';
+  return 'child';
+};
+
+// Default icons by node type; untyped nodes look like folders when they have children and files otherwise
+const TYPE_ICONS: Record<string, { closed: React.ReactNode; open: React.ReactNode }> = {
+  folder: { closed: <FaFolder />, open: <FaFolderOpen /> },
+  file: { closed: <FaFileAlt />, open: <FaFileAlt /> },
+};
+
+// Helper to wrap the matched characters of a name in <mark>, merging adjacent ones into a single run
+const highlightName = (name: string, matchedIndexes: number[]): React.ReactNode[] => {
+  const matched = new Set(matchedIndexes);
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  while (start < name.length) {
+    const isMatch = matched.has(start);
+    let end = start + 1;
+    while (end < name.length && matched.has(end) === isMatch) end++;
+    const text = name.slice(start, end);
+    parts.push(isMatch ? <mark key={start} className="search-highlight">{text}</mark> : text);
+    start = end;
+  }
+  return parts;
+};
+
+// Helper to show a raw column value: dates in the user's locale, numbers with digit grouping, nothing for no value
+const formatCellValue = (value: unknown): React.ReactNode => {
+  if (value == null) return null;
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+// Memoized: the tree store keeps unchanged subtrees referentially identical, so they skip re-rendering
+const TreeNode = React.memo<TreeNodeProps>(({
   node,
   level,
-  onToggleExpand,
+  flat = false,
+  getNodeProps,
+  getToggleProps,
+  getDropZoneProps,
+  onReloadChildren,
+  onLoadMore,
+  autoLoadMore,
+  posInSet,
+  setSize,
+  isSorted,
+  focusedNodeId,
+  onFocusNode,
+  editingNodeId,
+  onStartEditing,
+  onStopEditing,
   onAddNode,
   onRemoveNode,
   onEditNodeName,
-  onDragStart,
+  getNameError,
+  draftParentId,
+  draftBeforeId,
+  renderDraft,
+  onOpenContextMenu,
+  cutNodeIds,
   onDragOver,
   onDragLeave,
   onDrop,
-  draggedItemId,
+  onPointerDown,
+  dropTarget,
+  draggedNodeIds,
+  selectedNodeIds,
+  onSelectNode,
+  renderLabel,
+  renderIcon,
+  renderActions,
+  renderLoading,
+  columns,
+  checkedStates,
+  onCheckNode,
+  searchMatches,
+  currentMatchId,
+  revealedNodeId,
+  getNodeKey,
+  pendingCounts,
+  syncErrors,
+  onDismissSyncError,
 }) => {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editedName, setEditedName] = useState(node.name);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
-  const [dropPosition, setDropPosition] = useState<'above' | 'below' | 'child' | null>(null);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
+  const [isDropAllowed, setIsDropAllowed] = useState(true);
 
   const nodeRef = useRef<HTMLDivElement>(null);
+  const checkboxRef = useRef<HTMLInputElement>(null);
+
+  const isEditing = editingNodeId === node.id;
 
   const isExpanded = node.isExpanded ?? false;
   // If children is 'true' (lazy-loaded state) or an empty array, and hasChildren is explicitly false, then no children.
   // Otherwise, assume it has children or might have children (if lazy loaded).
   const hasChildren = node.hasChildren ?? (node.children === true || (Array.isArray(node.children) && node.children.length > 0));
-  const isLoadingChildren = isExpanded && node.children === true;
+  const loadState = useNodeLoadState(node.id);
+  const isLoadingChildren = loadState?.status === 'loading';
+  const hasLoadError = loadState?.status === 'error';
+  const isPending = pendingCounts.has(node.id);
+  const syncError = syncErrors.get(node.id);
 
   const handleDoubleClick = () => {
-    setIsEditing(true);
+    onStartEditing(node.id);
   };
 
-  const handleEditChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setEditedName(e.target.value);
+  // Enter and Escape hand focus back to the row; leaving the field by clicking elsewhere doesn't
+  const handleEditCancel = (fromKeyboard: boolean) => {
+    onStopEditing();
+    if (fromKeyboard) nodeRef.current?.focus();
   };
 
-  const handleEditBlur = () => {
-    if (editedName.trim() !== node.name) {
-      onEditNodeName(node.id, editedName.trim());
-    }
-    setIsEditing(false);
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      handleEditBlur();
-    }
-    if (e.key === 'Escape') {
-      setEditedName(node.name); // Revert to original
-      setIsEditing(false);
-    }
+  const handleEditCommit = (newName: string, fromKeyboard: boolean) => {
+    onEditNodeName(node.id, newName);
+    handleEditCancel(fromKeyboard);
   };
 
   // --- Drag and Drop Handlers ---
-  const handleLocalDragStart = (e: React.DragEvent<HTMLDivElement>) => {
-    e.stopPropagation();
-    e.dataTransfer.effectAllowed = 'move';
-    e.dataTransfer.setData('text/plain', node.id); // Set data for IE/Edge compatibility
-    onDragStart({ id: node.id, parentId: node.parentId });
-  };
-
-  const handleLocalDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    e.stopPropagation();
-
-    // Do not allow dropping on self
-    if (draggedItemId === node.id) {
-        setDropPosition(null);
-        setIsDraggingOver(false);
-        return;
-    }
 
+  // Do not allow dropping on self (or on another dragged node); TreeView still marks it as refused
+  const getLocalDropPosition = (e: React.DragEvent<HTMLElement>): DropPosition => {
     const targetRect = nodeRef.current?.getBoundingClientRect();
-    if (!targetRect) return;
-
-    const mouseY = e.clientY;
-    const offset = mouseY - targetRect.top;
-    const height = targetRect.height;
-
-    let newDropPosition: 'above' | 'below' | 'child' | null = null;
-    if (offset < height * DRAG_OFFSET_THRESHOLD) {
-      newDropPosition = 'above';
-    } else if (offset > height * (1 - DRAG_OFFSET_THRESHOLD)) {
-      newDropPosition = 'below';
-    } else {
-      newDropPosition = 'child';
-    }
+    return targetRect && !draggedNodeIds.has(node.id) ? getDropPosition(targetRect, e.clientY, isSorted) : 'child';
+  };
 
+  const handleLocalDragOver = (e: React.DragEvent<HTMLElement>, newDropPosition: DropPosition): boolean => {
+    if (draggedNodeIds.has(node.id)) {
+      setDropPosition(null);
+      setIsDraggingOver(false);
+      return onDragOver(e, node.id, newDropPosition);
+    }
     if (newDropPosition !== dropPosition) {
       setDropPosition(newDropPosition);
     }
     setIsDraggingOver(true);
-    onDragOver(e, node.id, newDropPosition); // Propagate to TreeView for global state
+    const isAllowed = onDragOver(e, node.id, newDropPosition); // TreeView checks the drop rules
+    setIsDropAllowed(isAllowed);
+    return isAllowed;
   };
 
   const handleLocalDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
@@ -121,56 +218,89 @@ const TreeNode: React.FC<TreeNodeProps> = ({
     onDragLeave(e); // Propagate
   };
 
-  const handleLocalDrop = (e: React.DragEvent<HTMLDivElement>) => {
-    e.stopPropagation();
+  const handleLocalDrop = (e: React.DragEvent<HTMLElement>, newDropPosition: DropPosition) => {
     setIsDraggingOver(false);
     setDropPosition(null);
-    onDrop(e, node.id, dropPosition || 'child'); // Propagate to TreeView, default to 'child'
+    onDrop(e, node.id, newDropPosition); // Propagate to TreeView
   };
 
   // Clear drag-over styling if the dragged item is no longer active
   useEffect(() => {
-    if (!draggedItemId) {
+    if (draggedNodeIds.size === 0) {
       setIsDraggingOver(false);
       setDropPosition(null);
     }
-  }, [draggedItemId]);
+  }, [draggedNodeIds]);
 
-  const isBeingDragged = draggedItemId === node.id;
+  const isBeingDragged = draggedNodeIds.has(node.id);
+  const isSelected = selectedNodeIds.has(node.id);
+  const matchedIndexes = searchMatches?.get(node.id);
+  const isCurrentMatch = currentMatchId === node.id;
+  const checkedState = checkedStates?.get(node.id);
 
-  // CSS class determination for drop indicators
-  const dropIndicatorClass = isDraggingOver && dropPosition ? `drop-indicator-${dropPosition}` : '';
+  // indeterminate can only be set from script
+  useEffect(() => {
+    if (checkboxRef.current) {
+      checkboxRef.current.indeterminate = checkedState === 'indeterminate';
+    }
+  }, [checkedState]);
+
+  const handleContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('input')) return; // Keep the native menu for the rename input
+    e.preventDefault();
+    onOpenContextMenu(node.id, { x: e.clientX, y: e.clientY });
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Clicks on the toggle, buttons or rename input are not selection clicks
+    if ((e.target as HTMLElement).closest('button, input, .expand-toggle')) return;
+    onSelectNode(node.id, { toggle: e.ctrlKey || e.metaKey, range: e.shiftKey });
+  };
 
-  // Determine the first character for the icon circle
-  const nodeChar = node.name.charAt(0).toUpperCase();
+  // CSS class determination for drop indicators; a pointer drag reports its target through dropTarget
+  const isPointerTarget = dropTarget?.nodeId === node.id;
+  const activeDropPosition = isPointerTarget ? dropTarget.position : isDraggingOver ? dropPosition : null;
+  const isActiveDropAllowed = isPointerTarget ? dropTarget.isAllowed : isDropAllowed;
+  const dropIndicatorClass = activeDropPosition ? (isActiveDropAllowed ? `drop-indicator-${activeDropPosition}` : 'drop-not-allowed') : '';
+  const showDropLine = (position: DropPosition) => isActiveDropAllowed && activeDropPosition === position;
+
+  // What the render props see
+  const renderState: NodeRenderState = { expanded: isExpanded, loading: isLoadingChildren, selected: isSelected, dragging: isBeingDragged };
+  const iconType = node.type && TYPE_ICONS[node.type] ? node.type : hasChildren ? 'folder' : 'file';
 
   return (
     <div
       className={`tree-node-wrapper level-${level}`}
       style={{ '--level': level } as React.CSSProperties} // Pass level as CSS variable for styling
     >
+      {draftBeforeId === node.id && renderDraft(level)}
+
       {/* Drop indicator for 'above' */}
-      {isDraggingOver && dropPosition === 'above' && <div className="drop-indicator drop-indicator-above" />}
+      {showDropLine('above') && <div className="drop-indicator drop-indicator-above" />}
 
       <div
         ref={nodeRef}
-        className={`tree-node ${isExpanded ? 'expanded' : ''} ${isBeingDragged ? 'is-being-dragged' : ''} ${dropIndicatorClass}`}
-        onDragStart={handleLocalDragStart}
-        onDragOver={handleLocalDragOver}
+        {...getNodeProps(node, { level, posInSet, setSize, role: columns ? 'row' : 'treeitem' })}
+        {...getDropZoneProps(node.id, { position: getLocalDropPosition, canDrop: handleLocalDragOver, onDrop: handleLocalDrop })}
+        aria-busy={isLoadingChildren || isPending || undefined}
+        aria-selected={isSelected}
+        aria-checked={checkedState ? (checkedState === 'indeterminate' ? 'mixed' : checkedState === 'checked') : undefined}
+        tabIndex={focusedNodeId === node.id ? 0 : -1}
+        onFocus={() => onFocusNode(node.id)}
+        className={`tree-node ${isExpanded ? 'expanded' : ''} ${isSelected ? 'is-selected' : ''} ${isBeingDragged ? 'is-being-dragged' : ''} ${isCurrentMatch ? 'is-current-match' : ''} ${revealedNodeId === node.id ? 'is-revealed' : ''} ${isPending ? 'is-pending' : ''} ${cutNodeIds.has(node.id) ? 'is-cut' : ''} ${dropIndicatorClass}`}
         onDragLeave={handleLocalDragLeave}
-        onDrop={handleLocalDrop}
+        onPointerDown={onPointerDown && (e => onPointerDown(e, node.id))}
+        onClick={handleClick}
         onDoubleClick={handleDoubleClick}
-        draggable="true"
+        onContextMenu={handleContextMenu}
+        draggable={!onPointerDown}
       >
-        <div className="node-content">
+        <div className="node-content" role={columns ? 'gridcell' : undefined}>
           {/* Expand/Collapse Toggle */}
           {hasChildren && (
-            <span
-              className="expand-toggle"
-              onClick={() => onToggleExpand(node.id, isExpanded, node.children, level)}
-            >
+            <span className="expand-toggle" {...getToggleProps(node)}>
 {isLoadingChildren ? (
-  <Spinner className="spinner" />
+  renderLoading ? renderLoading(node, level, renderState) : <Spinner className="spinner" />
 ) : isExpanded ? (
   <FaChevronDown />
 ) : (
@@ -180,60 +310,168 @@ const TreeNode: React.FC<TreeNodeProps> = ({
             </span>
           )}
 
-          {/* Node Type Circle (A, B, C, D) */}
-          <div className={`node-icon-circle type-${nodeChar}`}>
-            {nodeChar}
-          </div>
+          {/* Tri-state checkbox; the row itself carries aria-checked */}
+          {checkedState && (
+            <input
+              ref={checkboxRef}
+              type="checkbox"
+              checked={checkedState === 'checked'}
+              disabled={node.disabled}
+              onChange={() => onCheckNode(node.id, checkedState !== 'checked')}
+              className="node-checkbox"
+              tabIndex={-1}
+              aria-hidden="true"
+            />
+          )}
+
+          {/* Node type icon */}
+          {renderIcon ? renderIcon(node, level, renderState) : (
+            <div className={`node-icon-circle type-${iconType}`}>
+              {isExpanded ? TYPE_ICONS[iconType].open : TYPE_ICONS[iconType].closed}
+            </div>
+          )}
 
           {/* Node Name and Add Button */}
           <div className="node-label-actions">
             {isEditing ? (
-              <input
-                type="text"
-                value={editedName}
-                onChange={handleEditChange}
-                onBlur={handleEditBlur}
-                onKeyDown={handleKeyDown}
-                autoFocus
-                className="node-edit-input"
+              // Mounted afresh for every edit, so it always starts from the current name
+              <NodeNameInput
+                initialName={node.name}
+                getError={name => getNameError(node.parentId, name, node.id)}
+                onCommit={handleEditCommit}
+                onCancel={handleEditCancel}
+                aria-label={`Rename "${node.name}"`}
               />
             ) : (
-              <span className="node-name">{node.name}</span>
+              <span className="node-name">
+                {renderLabel ? renderLabel(node, level, renderState) : matchedIndexes ? highlightName(node.name, matchedIndexes) : node.name}
+              </span>
+            )}
+            {!renderActions && (
+              <button onClick={() => onAddNode(node.id)} className="add-child-button" title="Add child node" tabIndex={-1}>
+                <FaPlus />
+              </button>
             )}
-            <button onClick={() => onAddNode(node.id)} className="add-child-button" title="Add child node">
-              <FaPlus />
-            </button>
           </div>
 
+          {/* "Not allowed" badge while a refused drop hovers this row */}
+          {activeDropPosition && !isActiveDropAllowed && (
+            <span className="drop-not-allowed-indicator" title="Can't drop here" aria-hidden="true"><FaBan /></span>
+          )}
+
           {/* Other actions (Edit, Remove) - These are not in the image but were in requirements, kept separate for clarity */}
           <div className="node-actions-right">
-            <button onClick={() => setIsEditing(true)} className="icon-button" title="Edit node name"><FaEdit /></button>
-            <button onClick={() => onRemoveNode(node.id)} className="icon-button remove-button" title="Remove node"><FaTrash /></button>
+            {renderActions ? renderActions(node, level, renderState) : (
+              <>
+                {loadState?.status === 'loaded' && (
+                  <button onClick={() => onReloadChildren(node, level)} className="icon-button" title="Refresh children" tabIndex={-1}><FaSyncAlt /></button>
+                )}
+                <button onClick={() => onStartEditing(node.id)} className="icon-button" title="Edit node name" tabIndex={-1}><FaEdit /></button>
+                <button onClick={() => onRemoveNode(node.id)} className="icon-button remove-button" title="Remove node" tabIndex={-1}><FaTrash /></button>
+              </>
+            )}
           </div>
         </div>
+
+        {/* Data cells in tree-table mode; widths come from the column headers through CSS variables */}
+        {columns?.map((column, index) => (
+          <div key={column.key} className="tree-cell" role="gridcell" style={{ width: `var(--tree-column-${index}-width)` }}>
+            {column.render ? column.render(node, level, renderState) : formatCellValue(getColumnValue(node, column.key))}
+          </div>
+        ))}
       </div>
 
       {/* Drop indicator for 'below' */}
-      {isDraggingOver && dropPosition === 'below' && <div className="drop-indicator drop-indicator-below" />}
-
-      {isExpanded && Array.isArray(node.children) && node.children.map(child => (
-        <TreeNode
-          key={child.id}
-          node={{ ...child, parentId: node.id }} // Ensure parentId is passed down
-          level={level + 1}
-          onToggleExpand={onToggleExpand}
-          onAddNode={onAddNode}
-          onRemoveNode={onRemoveNode}
-          onEditNodeName={onEditNodeName}
-          onDragStart={onDragStart}
-          onDragOver={onDragOver}
-          onDragLeave={onDragLeave}
-          onDrop={onDrop}
-          draggedItemId={draggedItemId}
-        />
-      ))}
+      {showDropLine('below') && <div className="drop-indicator drop-indicator-below" />}
+
+      {/* Inline error row for a change the backend rejected and that was rolled back */}
+      {syncError && (
+        <div className="tree-node-sync-error" role="alert">
+          <span className="sync-error-message">{syncError}</span>
+          <button onClick={() => onDismissSyncError(node.id)} className="dismiss-button">Dismiss</button>
+        </div>
+      )}
+
+      {/* Inline error row for a failed lazy load */}
+      {isExpanded && hasLoadError && (
+        <div className="tree-node-load-error" role="alert">
+          <span className="load-error-message">Failed to load children{loadState.error ? `: ${loadState.error}` : ''}</span>
+          <button onClick={() => onReloadChildren(node, level)} className="retry-button">Retry</button>
+        </div>
+      )}
+
+      {!flat && isExpanded && Array.isArray(node.children) && (node.children.length > 0 || draftParentId === node.id || node.childrenCursor) && (
+        <div role="group">
+          {node.children.map((child, index, siblings) => (
+            <TreeNode
+              key={getNodeKey(child.id)}
+              node={child}
+              level={level + 1}
+              getNodeProps={getNodeProps}
+              getToggleProps={getToggleProps}
+              getDropZoneProps={getDropZoneProps}
+              onReloadChildren={onReloadChildren}
+              onLoadMore={onLoadMore}
+              autoLoadMore={autoLoadMore}
+              posInSet={index + 1}
+              setSize={siblings.length}
+              isSorted={node.sort ? node.sort !== 'none' : isSorted}
+              focusedNodeId={focusedNodeId}
+              onFocusNode={onFocusNode}
+              editingNodeId={editingNodeId}
+              onStartEditing={onStartEditing}
+              onStopEditing={onStopEditing}
+              onAddNode={onAddNode}
+              onRemoveNode={onRemoveNode}
+              onEditNodeName={onEditNodeName}
+              getNameError={getNameError}
+              draftParentId={draftParentId}
+              draftBeforeId={draftBeforeId}
+              renderDraft={renderDraft}
+              onOpenContextMenu={onOpenContextMenu}
+              cutNodeIds={cutNodeIds}
+              onDragOver={onDragOver}
+              onDragLeave={onDragLeave}
+              onDrop={onDrop}
+              onPointerDown={onPointerDown}
+              dropTarget={dropTarget}
+              draggedNodeIds={draggedNodeIds}
+              selectedNodeIds={selectedNodeIds}
+              onSelectNode={onSelectNode}
+              renderLabel={renderLabel}
+              renderIcon={renderIcon}
+              renderActions={renderActions}
+              renderLoading={renderLoading}
+              columns={columns}
+              checkedStates={checkedStates}
+              onCheckNode={onCheckNode}
+              searchMatches={searchMatches}
+              currentMatchId={currentMatchId}
+              revealedNodeId={revealedNodeId}
+              getNodeKey={getNodeKey}
+              pendingCounts={pendingCounts}
+              syncErrors={syncErrors}
+              onDismissSyncError={onDismissSyncError}
+            />
+          ))}
+          {draftParentId === node.id && renderDraft(level + 1)}
+          {node.childrenCursor && (
+            <LoadMoreRow
+              level={level + 1}
+              remainingCount={node.remainingChildCount}
+              isLoading={loadState?.status === 'loading-more'}
+              error={loadState?.status === 'load-more-error' ? loadState.error : undefined}
+              autoLoad={autoLoadMore}
+              onLoadMore={() => onLoadMore(node.id)}
+              role={columns ? 'row' : 'treeitem'}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
-};
+});
+
+TreeNode.displayName = 'TreeNode';
 
 export default TreeNode;
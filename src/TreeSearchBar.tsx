@@ -0,0 +1,99 @@
+// src/TreeSearchBar.tsx
+import React from 'react';
+import { SearchMode, TreeFilter } from './types';
+import { FaSearch, FaChevronUp, FaChevronDown, FaTimes, FaSpinner } from 'react-icons/fa';
+
+const Spinner = FaSpinner as React.FC<React.SVGProps<SVGSVGElement>>;
+
+interface TreeSearchBarProps {
+  filter: TreeFilter | null;
+  onFilterChange: (filter: TreeFilter | null) => void;
+  isValid: boolean; // False for a regex that doesn't compile
+  isSearching: boolean; // A server-side search is loading unloaded subtrees
+  searchError: string | null; // Why the server-side search failed; the matches shown are only the loaded ones
+  onRetrySearch: () => void;
+  matchCount: number;
+  currentMatchIndex: number; // -1 when no match is current
+  onNextMatch: () => void;
+  onPreviousMatch: () => void;
+}
+
+const TreeSearchBar: React.FC<TreeSearchBarProps> = ({
+  filter,
+  onFilterChange,
+  isValid,
+  isSearching,
+  searchError,
+  onRetrySearch,
+  matchCount,
+  currentMatchIndex,
+  onNextMatch,
+  onPreviousMatch,
+}) => {
+  const query = filter?.query ?? '';
+  const mode = filter?.mode ?? 'substring';
+
+  const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onFilterChange(e.target.value ? { ...filter, query: e.target.value, mode } : null);
+  };
+
+  const handleModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextMode = e.target.value as SearchMode;
+    onFilterChange(query ? { ...filter, query, mode: nextMode } : null);
+  };
+
+  // Enter / Shift+Enter step through results, Escape clears the search
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onPreviousMatch();
+      } else {
+        onNextMatch();
+      }
+    }
+    if (e.key === 'Escape') {
+      onFilterChange(null);
+    }
+  };
+
+  return (
+    <div className="tree-search-bar" role="search">
+      <FaSearch className="tree-search-icon" />
+      <input
+        type="text"
+        value={query}
+        onChange={handleQueryChange}
+        onKeyDown={handleKeyDown}
+        placeholder="Search nodes..."
+        aria-label="Search nodes"
+        aria-invalid={!isValid || undefined}
+        className={`tree-search-input ${isValid ? '' : 'is-invalid'}`}
+      />
+      <select value={mode} onChange={handleModeChange} className="tree-search-mode" aria-label="Search mode">
+        <option value="substring">Contains</option>
+        <option value="regex">Regex</option>
+        <option value="fuzzy">Fuzzy</option>
+      </select>
+      {isSearching && <Spinner className="spinner" />}
+      {query && searchError && (
+        <>
+          <span className="tree-search-error" role="alert">Search failed: {searchError}</span>
+          <button onClick={onRetrySearch} className="retry-button">Retry</button>
+        </>
+      )}
+      {query && !searchError && (
+        <span className="tree-search-count" aria-live="polite">
+          {matchCount === 0 ? 'No matches' : currentMatchIndex === -1 ? `${matchCount} matches` : `${currentMatchIndex + 1} of ${matchCount}`}
+        </span>
+      )}
+      <button onClick={onPreviousMatch} disabled={matchCount === 0} className="icon-button" title="Previous match"><FaChevronUp /></button>
+      <button onClick={onNextMatch} disabled={matchCount === 0} className="icon-button" title="Next match"><FaChevronDown /></button>
+      {query && (
+        <button onClick={() => onFilterChange(null)} className="icon-button" title="Clear search"><FaTimes /></button>
+      )}
+    </div>
+  );
+};
+
+export default TreeSearchBar;
@@ -1,287 +1,1676 @@
 // src/TreeView.tsx
-import React, { useState, useCallback, useEffect } from 'react';
-import { ITreeNode, TreeData, DragItem } from './types';
-import { createInitialTree, simulateApiCall, generateId } from './mockData';
+import React, { useState, useCallback, useEffect, useRef, useMemo, useId, forwardRef, useImperativeHandle } from 'react';
+import { ITreeNode, TreeData, ActionRefusal, CheckedStrategy, ColumnSort, ContextMenuItem, ContextMenuItems, DragBackend, DragMode, DropPosition, ExternalDropHandler, LoadChildren, ImportOptions, ImportResult, NameValidator, NodeRenderer, NodeTransfer, NodeTransferInfo, PersistedTreeState, PersistOptions, ResolveNodePath, SearchNodes, SelectionModifiers, TreeChange, TreeColumn, TreeFilter, TreeFormat, TreeSchema, TreeSort, TreeOperation, TreeSyncCallbacks, TreeTransport, TreeViewError, TreeViewHandle, VisibleNode } from './types';
+import { generateId, reserveIds, setParentIds } from './mockData';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+import * as treeModel from './treeModel';
+import * as treeHistory from './treeHistory';
+import { TreeCommand } from './treeHistory';
+import { findMatches, filterTree, isValidFilter } from './treeSearch';
+import * as treeSort from './treeSort';
+import * as treeChecks from './treeChecks';
+import * as treeFormats from './treeFormats';
+import * as treeRules from './treeRules';
+import { TreeRules } from './treeRules';
 import TreeNode from './TreeNode';
+import TreeSearchBar from './TreeSearchBar';
+import { TreeLoadStateProvider } from './TreeLoadStateContext';
+import TreeImportExport from './TreeImportExport';
+import TreeExpandControls from './TreeExpandControls';
+import TreeBreadcrumb from './TreeBreadcrumb';
+import TreeColumnHeaders from './TreeColumnHeaders';
+import NodeNameInput from './NodeNameInput';
+import LoadMoreRow from './LoadMoreRow';
+import TreeContextMenu from './TreeContextMenu';
+import { SharedDrag, TREE_NODES_MIME, useSharedDrag } from './TreeDragContext';
+import { FaTimes } from 'react-icons/fa';
+import { useVirtualRows } from './useVirtualRows';
+import { useTreePersistence } from './useTreePersistence';
+import { useTreeSync } from './useTreeSync';
+import { usePointerDrag } from './usePointerDrag';
+import { useAutoScroll } from './useAutoScroll';
+import { useTreeOperations } from './useTreeOperations';
+import { useHashSync } from './useHashSync';
+import { useTree, NodePropsOptions } from './useTree';
 import './styles.css';
 
-// Helper to find a node and its location (node, parent, siblings, index) recursively
-interface NodeLocation {
-  node: ITreeNode;
-  parent: ITreeNode | null;
-  index: number;
-  siblings: ITreeNode[];
-}
-
-const findNodeAndLocation = (tree: TreeData, nodeId: string | null, parent: ITreeNode | null = null, siblings: ITreeNode[] = []): NodeLocation | null => {
-  if (!nodeId) return null; // Handle null nodeId for root-level drops
+const TYPE_AHEAD_RESET_MS = 500; // Pause after which type-ahead starts a new search
+const SERVER_SEARCH_DEBOUNCE_MS = 300; // Typing pause before searchNodes is called
+const UNDO_TOAST_MS = 6000; // How long "Undo" stays offered after a delete
+const HOVER_EXPAND_MS = 800; // How long a drag has to hover a collapsed node to open it
+const REVEAL_HIGHLIGHT_MS = 1500; // How long a revealed node stays highlighted
+const DEFAULT_COLUMN_WIDTH = 150; // px, for tree-table columns without a width
 
-  for (let i = 0; i < tree.length; i++) {
-    const node = tree[i];
-    if (node.id === nodeId) {
-      return { node, parent, index: i, siblings };
+// Helper to find, for each row, the expanded nodes whose child lists end right after it (innermost first).
+// Without nested groups, their trailing rows ("new node", "Load more") render inside that row in virtualized mode.
+const getClosingParents = (visibleNodes: VisibleNode[]): Map<number, VisibleNode[]> => {
+  const closingParents = new Map<number, VisibleNode[]>();
+  const openParents: VisibleNode[] = [];
+  visibleNodes.forEach((visibleNode, index) => {
+    if (visibleNode.node.isExpanded && Array.isArray(visibleNode.node.children)) openParents.push(visibleNode);
+    const nextLevel = visibleNodes[index + 1]?.level ?? -1;
+    const closedParents: VisibleNode[] = [];
+    while (openParents.length > 0 && openParents[openParents.length - 1].level >= nextLevel) {
+      closedParents.push(openParents.pop() as VisibleNode);
     }
-    if (node.children && Array.isArray(node.children) && node.isExpanded) {
-      const found = findNodeAndLocation(node.children, nodeId, node, node.children);
-      if (found) return found;
-    }
-  }
-  return null;
+    if (closedParents.length > 0) closingParents.set(index, closedParents);
+  });
+  return closingParents;
 };
 
-// Helper to update a node immutably
-const updateNodeInTree = (tree: TreeData, nodeId: string, updater: (node: ITreeNode) => ITreeNode): TreeData => {
-  return tree.map(node => {
-    if (node.id === nodeId) {
-      return updater(node);
-    }
-    if (node.children && Array.isArray(node.children)) {
-      return {
-        ...node,
-        children: updateNodeInTree(node.children, nodeId, updater),
-      };
-    }
-    return node;
-  });
+// Helper to deep-copy a subtree with fresh ids, pointing each copied child at its copied parent
+const cloneWithFreshIds = (node: ITreeNode, parentId: string | null): ITreeNode => {
+  const id = generateId();
+  return { ...node, id, parentId, children: Array.isArray(node.children) ? node.children.map(child => cloneWithFreshIds(child, id)) : node.children };
 };
 
-// Helper to add a node immutably
-const addNodeToTree = (tree: TreeData, parentId: string | null, newNode: ITreeNode): TreeData => {
-  if (parentId === null) { // Add to root
-    return [...tree, { ...newNode, parentId: null }];
-  }
+// Helper to list the ids in a nested subtree
+const collectIds = (node: ITreeNode): string[] => [node.id, ...(Array.isArray(node.children) ? node.children.flatMap(collectIds) : [])];
 
-  return updateNodeInTree(tree, parentId, parentNode => {
-    const childrenArray = Array.isArray(parentNode.children) ? parentNode.children : [];
-    return {
-      ...parentNode,
-      children: [...childrenArray, { ...newNode, parentId: parentNode.id }],
-      hasChildren: true,
-      isExpanded: true, // Expand parent when adding a child
-    };
+// Helper to read the drag mode from the modifier keys held during a drag
+const getDragMode = (event: { ctrlKey: boolean; altKey: boolean }): DragMode => (event.ctrlKey || event.altKey ? 'copy' : 'move');
+
+// What Cut or Copy put aside for Paste: cut nodes are moved by id, copies are snapshots taken at copy time
+type TreeClipboard = { mode: 'cut'; nodeIds: string[] } | { mode: 'copy'; nodes: ITreeNode[] };
+
+// Helper to compare two id lists, order included
+const isSameIdList = (a: string[], b: string[]) => a.length === b.length && a.every((id, index) => id === b[index]);
+
+// T is the type of the nodes' `data` payload. The sync callbacks (onAdd, onRename, onRemove, onMove) persist
+// each change after it has been applied; a rejected promise rolls the change back and shows the error on its row.
+interface TreeViewProps<T = unknown> extends TreeSyncCallbacks<T> {
+  data?: TreeData<T>; // Controlled tree; pair with onChange
+  defaultData?: TreeData<T>; // Initial tree when uncontrolled
+  onChange?: (nextTree: TreeData<T>, change: TreeChange) => void;
+  onSelectionChange?: (selectedIds: string[]) => void;
+  checkboxes?: boolean; // Show a tri-state checkbox on every checkable row
+  checkedIds?: string[]; // Controlled checked nodes, in any mix of leaf and parent ids; pair with onCheckedChange
+  defaultCheckedIds?: string[];
+  onCheckedChange?: (checkedIds: string[]) => void;
+  checkedStrategy?: CheckedStrategy; // What onCheckedChange reports; defaults to 'leaves'
+  loadChildren?: LoadChildren; // Without a loader, lazy nodes expand to an empty list
+  childPageSize?: number; // Passed to loadChildren as options.pageSize
+  autoLoadMore?: boolean; // Fetch the next page of children when the "Load more" row scrolls into view, not only on click
+  expandConcurrency?: number; // Lazy loads in flight at a time during expand all, expand to level or a Shift+click expand
+  sort?: TreeSort<T>; // Display order of children: 'none' (manual, the default), 'alpha', 'natural' or a comparator; a node's `sort` field overrides it for its branch
+  foldersFirst?: boolean; // In sorted branches, list nodes with children (or of type 'folder') before leaves; defaults to true
+  persist?: PersistOptions; // Save the tree and UI state and restore them on mount
+  canDrag?: (node: ITreeNode<T>) => boolean;
+  canDrop?: (dragged: ITreeNode<T>[], target: ITreeNode<T> | null, position: DropPosition) => boolean; // target is null for root-level drops
+  canRename?: (node: ITreeNode<T>) => boolean;
+  canRemove?: (node: ITreeNode<T>) => boolean;
+  schema?: TreeSchema; // Allowed child types and depth limits per node type
+  validateName?: NameValidator<T>; // Checks new and changed names; defaults to rejecting duplicate sibling names
+  onActionRefused?: (refusal: ActionRefusal) => void; // A rule blocked a drag, drop, add, rename or removal
+  onError?: (error: TreeViewError) => void; // Something failed outside any row: resolving the path of a node to reveal, or reading or saving persisted state
+  showSearch?: boolean; // Render the search box above the tree
+  searchNodes?: SearchNodes; // Lets searches reach into subtrees that haven't been loaded yet
+  resolveNodePath?: ResolveNodePath; // Lets revealNode (and hash links) reach nodes that haven't been loaded yet
+  hashParam?: string; // Keeps the selected node's id in the URL hash under this key, e.g. 'node' for #node=<id>, and reveals the node a hash names
+  showBreadcrumb?: boolean; // Render the focused node's path above the tree
+  showImportExport?: boolean; // Render Import/Export actions above the tree
+  showExpandControls?: boolean; // Render Expand all, Collapse all and Expand to level above the tree
+  renderLabel?: NodeRenderer<T>; // Custom row content; each slot receives (node, level, { expanded, loading, selected, dragging })
+  renderIcon?: NodeRenderer<T>; // Defaults to an icon picked by node type
+  renderActions?: NodeRenderer<T>; // Replaces the built-in add, refresh, edit and remove buttons
+  renderLoading?: NodeRenderer<T>; // Shown in place of the expand toggle while children load
+  columns?: TreeColumn<T>[]; // Tree-table mode: an ARIA treegrid with the tree in the first column, then one column per entry
+  treeColumnHeader?: React.ReactNode; // Header of the tree's own column in tree-table mode; defaults to 'Name'
+  contextMenuItems?: ContextMenuItems<T>; // Adds, removes or reorders entries of the right-click (Shift+F10) menu
+  transformOutgoing?: NodeTransfer<T>; // Adjusts or refuses nodes dragged into another TreeView under the same TreeDragProvider
+  transformIncoming?: NodeTransfer<T>; // Adjusts or refuses nodes dragged in from another TreeView
+  onExternalDrop?: ExternalDropHandler<T>; // Turns files or text dropped from outside the page into nodes, e.g. nodesFromExternalDrop
+  dragBackend?: DragBackend; // 'pointer' drags within the tree with Pointer Events (touch included) instead of native drag and drop
+  actorId?: string; // Identifies this replica in the operations it emits; random by default
+  transport?: TreeTransport; // Sends this tree's operations to other replicas and applies theirs, e.g. createBroadcastChannelTransport
+  onOperations?: (operations: TreeOperation[]) => void; // Every local add, remove, rename and move, for a transport of your own
+  'aria-label'?: string;
+  virtualized?: boolean; // Render only the rows in the viewport; requires a fixed height
+  height?: number | string; // Height of the scrolling viewport in virtualized mode
+  estimatedRowHeight?: number; // Row height assumed until a row has been measured
+  overscan?: number; // Rows rendered beyond each edge of the viewport
+}
+
+const TreeView = forwardRef<TreeViewHandle, TreeViewProps>(({
+  data,
+  defaultData,
+  onChange,
+  onSelectionChange,
+  checkboxes = false,
+  checkedIds,
+  defaultCheckedIds,
+  onCheckedChange,
+  checkedStrategy = 'leaves',
+  loadChildren,
+  childPageSize = 100,
+  autoLoadMore = false,
+  expandConcurrency = 4,
+  sort = 'none',
+  foldersFirst = true,
+  persist,
+  canDrag,
+  canDrop,
+  canRename,
+  canRemove,
+  schema,
+  validateName = treeRules.rejectDuplicateNames,
+  onActionRefused,
+  onError,
+  showSearch = false,
+  searchNodes,
+  resolveNodePath,
+  hashParam,
+  showBreadcrumb = false,
+  showImportExport = false,
+  showExpandControls = false,
+  renderLabel,
+  renderIcon,
+  renderActions,
+  renderLoading,
+  columns,
+  treeColumnHeader = 'Name',
+  contextMenuItems,
+  transformOutgoing,
+  transformIncoming,
+  onExternalDrop,
+  dragBackend = 'html5',
+  actorId: actorIdProp,
+  transport,
+  onOperations,
+  'aria-label': ariaLabel = 'Tree',
+  virtualized = false,
+  height = 400,
+  estimatedRowHeight = 50,
+  overscan = 5,
+  onAdd,
+  onRename,
+  onRemove,
+  onMove,
+}, ref) => {
+  const [pendingScrollId, setPendingScrollId] = useState<string | null>(null);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [internalCheckedIds, setInternalCheckedIds] = useState<string[]>(defaultCheckedIds ?? []);
+  const [filter, setFilter] = useState<TreeFilter | null>(null);
+  const [filterCollapsedIds, setFilterCollapsedIds] = useState<ReadonlySet<string>>(new Set()); // Match ancestors collapsed during a search
+  const [currentMatchIndex, setCurrentMatchIndex] = useState(-1);
+  const [isServerSearching, setIsServerSearching] = useState(false);
+  const [serverSearchError, setServerSearchError] = useState<string | null>(null); // Why the last server-side search failed
+  const [serverSearchAttempt, setServerSearchAttempt] = useState(0); // Bumped by Retry to run a failed search again
+  // Where the inline "new node" row is open: above beforeId, or at the end of the parent's children
+  const [draft, setDraft] = useState<{ parentId: string | null; beforeId?: string } | null>(null);
+  const [deletion, setDeletion] = useState<{ message: string; command: TreeCommand } | null>(null); // The delete "Undo" is offered for
+  const [clipboard, setClipboard] = useState<TreeClipboard | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null);
+  const [columnSort, setColumnSort] = useState<ColumnSort | null>(null); // Set by clicking a sortable column header
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({}); // Columns the user has resized, by key
+
+  // The store, loading, expansion and undo history; every applied edit is also sent to the backend
+  // callbacks and to the other replicas
+  const {
+    store,
+    tree: treeData,
+    storeRef,
+    historyRef,
+    applyChange,
+    execute: executeCommand,
+    step: stepHistory,
+    loadStates,
+    loadNode: loadNodeChildren,
+    loadMore: loadMoreChildren,
+    ensureChildrenLoaded,
+    loadPath,
+    replaceLoadStateId,
+    setExpanded,
+    expandBranch,
+    collapseBranch,
+    expandToDepth,
+    cancelExpand,
+    expandProgress,
+    replace,
+    insert,
+    remove,
+    rename,
+    move,
+    draggedItem,
+    setDraggedItem,
+    getNodeProps,
+    getToggleProps,
+    getDropZoneProps,
+  } = useTree({
+    data,
+    defaultData,
+    onChange,
+    loadChildren,
+    childPageSize,
+    expandConcurrency,
+    onCommand: (command, prevStore) => {
+      trackSync(command);
+      trackOperations(command, prevStore);
+    },
   });
-};
 
-// Helper to remove a node immutably
-const removeNodeFromTree = (tree: TreeData, nodeIdToRemove: string): TreeData => {
-  const newTree = tree.filter(node => node.id !== nodeIdToRemove).map(node => {
-    if (node.children && Array.isArray(node.children)) {
-      const updatedChildren = removeNodeFromTree(node.children, nodeIdToRemove);
-      return {
-        ...node,
-        children: updatedChildren,
-        hasChildren: updatedChildren.length > 0,
-      };
+  // Latest callbacks, so async work and the imperative handle never act on a stale snapshot
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  onSelectionChangeRef.current = onSelectionChange;
+  const onCheckedChangeRef = useRef(onCheckedChange);
+  onCheckedChangeRef.current = onCheckedChange;
+  const rulesRef = useRef<TreeRules>({});
+  rulesRef.current = { canDrag, canDrop, canRename, canRemove, schema, validateName };
+  const onActionRefusedRef = useRef(onActionRefused);
+  onActionRefusedRef.current = onActionRefused;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const transformOutgoingRef = useRef(transformOutgoing);
+  transformOutgoingRef.current = transformOutgoing;
+  const transformIncomingRef = useRef(transformIncoming);
+  transformIncomingRef.current = transformIncoming;
+  const onExternalDropRef = useRef(onExternalDrop);
+  onExternalDropRef.current = onExternalDrop;
+  const resolveNodePathRef = useRef(resolveNodePath);
+  resolveNodePathRef.current = resolveNodePath;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingFocusIdRef = useRef<string | null>(null); // Row to move DOM focus to once it is rendered
+  const typeAheadRef = useRef<{ query: string; timeoutId?: number }>({ query: '' });
+
+  // While a filter is active, the rendered tree is the filtered view rather than the tree itself
+  const isFilterValid = filter ? isValidFilter(filter) : true;
+  // A sorted column replaces the tree-wide sort; branches with a `sort` field of their own keep it
+  const sortColumn = columnSort && columns?.find(column => column.key === columnSort.key && column.sortable);
+  const sortDirection = columnSort?.direction;
+  const displaySort = useMemo(() => (sortColumn && sortDirection ? treeSort.getColumnComparator(sortColumn, sortDirection) : sort), [sortColumn, sortDirection, sort]);
+  const sortedTree = useMemo(() => treeSort.sortTree(treeData, displaySort, foldersFirst), [treeData, displaySort, foldersFirst]);
+  const searchMatches = useMemo(() => (filter && isFilterValid ? findMatches(sortedTree, filter) : null), [sortedTree, filter, isFilterValid]);
+  const matchIds = useMemo(() => Array.from(searchMatches?.keys() ?? []), [searchMatches]);
+  const displayTree = useMemo(() => (searchMatches ? filterTree(sortedTree, searchMatches, filterCollapsedIds) : sortedTree), [sortedTree, searchMatches, filterCollapsedIds]);
+  const currentMatchId = matchIds[currentMatchIndex] ?? null;
+
+  const visibleNodes = useMemo(() => treeModel.getVisibleNodes(displayTree), [displayTree]);
+  // In a sorted branch a node's place follows from its name, so it can't be dropped or moved between siblings
+  const isSortedBranch = useCallback((parentId: string | null) => treeSort.getChildSort(store, parentId, displaySort) !== 'none', [store, displaySort]);
+  // Roving tabindex: the focused row is the tree's only tab stop, falling back to the first row
+  const tabStopId = visibleNodes.some(({ node }) => node.id === focusedId) ? focusedId : visibleNodes[0]?.node.id ?? null;
+
+  const rowKeys = useMemo(() => visibleNodes.map(({ node }) => node.id), [visibleNodes]);
+  // Tree tables render flat rows too, since a treegrid's rows can't nest
+  const rowRole = columns ? 'row' : 'treeitem';
+  const isFlat = virtualized || !!columns;
+  const closingParents = useMemo(() => (isFlat ? getClosingParents(visibleNodes) : new Map<number, VisibleNode[]>()), [isFlat, visibleNodes]);
+  const virtualRows = useVirtualRows(containerRef, { enabled: virtualized, rowKeys, estimatedRowHeight, overscan });
+  const { scrollToIndex: scrollToRowIndex } = virtualRows;
+
+  // The selection as passed to every row. It only changes when the selection does, so memoized rows skip edits; it
+  // may still hold removed nodes, which have no row. getSelectedIds lists the ones that still exist.
+  const selectedIdSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const selectedIdsRef = useRef(selectedIdSet);
+  selectedIdsRef.current = selectedIdSet;
+  const getSelectedIds = useCallback(() => Array.from(selectedIdsRef.current).filter(id => treeStore.getNode(storeRef.current, id)), [storeRef]);
+  const rowKeysRef = useRef(rowKeys); // Lets selection handlers stay the same function across edits
+  rowKeysRef.current = rowKeys;
+  const selectionAnchorRef = useRef<string | null>(null); // Where Shift+click ranges start from
+  // The most recently selected node that still exists, as the target of toolbar actions and the one the URL hash names
+  const targetNodeId = [...selectedIds].reverse().find(id => treeStore.getNode(store, id)) ?? null;
+
+  // Checked nodes, normalized against the current tree: lazy children that just loaded inherit their parent's state
+  const isCheckedControlled = checkedIds !== undefined;
+  const checkedIdSet = useMemo(() => treeChecks.normalizeChecked(store, checkedIds ?? internalCheckedIds), [store, checkedIds, internalCheckedIds]);
+  const checkedStates = useMemo(() => (checkboxes ? treeChecks.getCheckedStates(store, checkedIdSet) : null), [checkboxes, store, checkedIdSet]);
+  const reportedCheckedIds = useMemo(() => treeChecks.getReportedIds(store, checkedIdSet, checkedStrategy), [store, checkedIdSet, checkedStrategy]);
+  const checkedIdSetRef = useRef(checkedIdSet);
+  checkedIdSetRef.current = checkedIdSet;
+  const reportedCheckedIdsRef = useRef(reportedCheckedIds);
+  reportedCheckedIdsRef.current = reportedCheckedIds;
+  const lastReportedCheckedRef = useRef<string[] | null>(null); // What onCheckedChange last reported (or the initial ids)
+
+  const draggedNodeIds = useMemo(() => new Set(draggedItem ? draggedItem.ids ?? [draggedItem.id] : []), [draggedItem]);
+  const cutNodeIds = useMemo(() => new Set(clipboard?.mode === 'cut' ? clipboard.nodeIds : []), [clipboard]);
+
+  // --- Backend Sync ---
+
+  // A server id replaced a temporary one: carry the view state that refers to the node over to the new id
+  const handleIdChange = useCallback((nodeId: string, newId: string) => {
+    const swapId = (id: string) => (id === nodeId ? newId : id);
+    const swapNullableId = (id: string | null) => (id === null ? null : swapId(id));
+    setSelectedIds(prevIds => prevIds.map(swapId));
+    selectionAnchorRef.current = swapNullableId(selectionAnchorRef.current);
+    pendingFocusIdRef.current = swapNullableId(pendingFocusIdRef.current);
+    setFocusedId(swapNullableId);
+    setEditingId(swapNullableId);
+    setDraft(prevDraft => (prevDraft && { parentId: swapNullableId(prevDraft.parentId), beforeId: prevDraft.beforeId && swapId(prevDraft.beforeId) }));
+    setClipboard(prevClipboard => (prevClipboard?.mode === 'cut' ? { mode: 'cut', nodeIds: prevClipboard.nodeIds.map(swapId) } : prevClipboard));
+    setContextMenu(prevMenu => (prevMenu && { ...prevMenu, nodeId: swapId(prevMenu.nodeId) }));
+    // The toast's command no longer matches the history's copy, so it could not be undone from there
+    setDeletion(prevDeletion => (prevDeletion && treeHistory.getReferencedIds(prevDeletion.command).includes(nodeId) ? null : prevDeletion));
+    replaceLoadStateId(nodeId, newId);
+    if (reportedCheckedIdsRef.current.includes(nodeId)) {
+      const nextCheckedIds = reportedCheckedIdsRef.current.map(swapId);
+      if (!isCheckedControlled) setInternalCheckedIds(nextCheckedIds);
+      lastReportedCheckedRef.current = nextCheckedIds;
+      onCheckedChangeRef.current?.(nextCheckedIds);
     }
-    return node;
+  }, [isCheckedControlled, replaceLoadStateId]);
+
+  // --- Collaboration ---
+
+  const [defaultActorId] = useState(() => `actor-${Math.random().toString(36).slice(2, 10)}`);
+  const { track: trackOperations, applyRemote: applyRemoteOperations, reset: resetOperations } = useTreeOperations({
+    actorId: actorIdProp ?? defaultActorId,
+    transport,
+    onOperations,
+    applyChange,
   });
-  return newTree;
-};
 
-// Helper to check if a node is an ancestor of another node
-const isAncestor = (ancestorId: string, descendantId: string, nodes: TreeData): boolean => {
-    const findDescendant = (currentNodes: TreeData): boolean => {
-        for (const node of currentNodes) {
-            if (node.id === descendantId) return true;
-            if (node.children && Array.isArray(node.children)) {
-                if (findDescendant(node.children)) return true;
-            }
-        }
-        return false;
+  // A rolled-back change has already reached the other replicas, so they are sent its inverse too
+  const handleRollBack = useCallback((inverse: TreeCommand) => trackOperations(inverse, storeRef.current), [storeRef, trackOperations]);
+
+  const sync = useTreeSync({ onAdd, onRename, onRemove, onMove }, { historyRef, applyChange, onIdChange: handleIdChange, onRollBack: handleRollBack });
+  const { track: trackSync } = sync;
+
+  // Reports a refusal, if there is one; returns true when the action must not go ahead
+  const reportRefusal = useCallback((refusal: ActionRefusal | null): boolean => {
+    if (refusal) onActionRefusedRef.current?.(refusal);
+    return refusal !== null;
+  }, []);
+
+  // --- Tree Manipulation Actions ---
+
+  // Expansion driven by the user in the rendered view; during a search it only affects the filtered view
+  const setViewExpanded = useCallback((nodeId: string, isExpanded: boolean) => {
+    if (!searchMatches) {
+      setExpanded(nodeId, isExpanded);
+      return;
+    }
+    setFilterCollapsedIds(prevCollapsedIds => {
+      const nextCollapsedIds = new Set(prevCollapsedIds);
+      if (isExpanded) {
+        nextCollapsedIds.delete(nodeId);
+      } else {
+        nextCollapsedIds.add(nodeId);
+      }
+      return nextCollapsedIds;
+    });
+  }, [searchMatches, setExpanded]);
+
+  // Re-fetches the children of a node, e.g. after a failed load or to pick up server-side changes
+  const handleReloadChildren = useCallback((node: ITreeNode) => {
+    loadNodeChildren(node.id);
+  }, [loadNodeChildren]);
+
+  // Adds at index among the parent's children (the end by default). Returns the new node, or null if the
+  // schema doesn't allow a node there, the name is refused or the parent's children haven't been loaded.
+  const insertNode = useCallback((parentId: string | null, nodeName: string, index?: number): ITreeNode | null => {
+    const currentStore = storeRef.current;
+    const nodeType = treeRules.getDefaultChildType(currentStore, rulesRef.current.schema, parentId);
+    if (reportRefusal(treeRules.checkAdd(currentStore, rulesRef.current, parentId, nodeType) ?? treeRules.checkName(currentStore, rulesRef.current, parentId, nodeName))) return null;
+    const newNode: ITreeNode = {
+      id: generateId(),
+      name: nodeName.trim(),
+      children: [],
+      isExpanded: false,
+      hasChildren: false,
+      parentId: parentId,
+      ...(nodeType ? { type: nodeType } : {}),
     };
+    return insert(parentId, newNode, index) ? newNode : null;
+  }, [storeRef, reportRefusal, insert]);
 
-    const ancestorNode = findNodeAndLocation(nodes, ancestorId)?.node;
-    if (!ancestorNode || !ancestorNode.children || !Array.isArray(ancestorNode.children)) return false;
+  // Removes several nodes as one undo step; ids inside an already removed subtree are skipped.
+  // Returns the command that was run, or null if nothing was removed.
+  const removeNodes = useCallback((nodeIds: string[]): TreeCommand | null => {
+    const currentStore = storeRef.current;
+    const topLevelIds = treeStore.getTopLevelIds(currentStore, nodeIds);
+    if (reportRefusal(treeRules.checkRemove(currentStore, rulesRef.current, topLevelIds))) return null;
+    return remove(topLevelIds);
+  }, [storeRef, reportRefusal, remove]);
 
-    return findDescendant(ancestorNode.children);
-};
+  const removeNode = useCallback((nodeId: string) => {
+    removeNodes([nodeId]);
+  }, [removeNodes]);
 
+  const renameNode = useCallback((nodeId: string, newName: string) => {
+    const currentStore = storeRef.current;
+    const parentId = treeStore.getNode(currentStore, nodeId)?.parentId ?? null;
+    if (reportRefusal(treeRules.checkRename(currentStore, rulesRef.current, nodeId) ?? treeRules.checkName(currentStore, rulesRef.current, parentId, newName, nodeId))) return;
+    rename(nodeId, newName);
+  }, [storeRef, reportRefusal, rename]);
 
-const TreeView: React.FC = () => {
-  const [treeData, setTreeData] = useState<TreeData>(createInitialTree);
-  const [draggedItem, setDraggedItem] = useState<DragItem | null>(null);
+  // Moves several nodes to a drop target as one undo step, keeping their relative (document) order, once an
+  // unloaded lazy target has loaded; resolves to false if refused
+  const moveNodes = useCallback(async (nodeIds: string[], targetNodeId: string | null, dropPosition: DropPosition): Promise<boolean> => {
+    const currentStore = storeRef.current;
+    const topLevelIds = treeStore.getTopLevelIds(currentStore, nodeIds);
+    if (reportRefusal(treeRules.checkMove(currentStore, rulesRef.current, topLevelIds, targetNodeId, dropPosition))) return false;
+    return move(topLevelIds, targetNodeId, dropPosition);
+  }, [storeRef, reportRefusal, move]);
 
-  // --- Tree Manipulation Actions ---
+  const moveNode = useCallback((nodeId: string, targetNodeId: string | null, dropPosition: DropPosition) => {
+    moveNodes([nodeId], targetNodeId, dropPosition);
+  }, [moveNodes]);
+
+  // Moves nodes one place up (-1) or down (1) among their siblings; a node blocked by the edge of its
+  // sibling list, or by another blocked node, stays put so a contiguous selection moves as a block
+  const shiftNodes = useCallback((nodeIds: string[], direction: -1 | 1) => {
+    const currentStore = storeRef.current;
+    const topLevelIds = treeStore.getTopLevelIds(currentStore, nodeIds);
+    const orderedIds = direction === -1 ? topLevelIds : [...topLevelIds].reverse();
+    const blockedIds = new Set<string>();
+    let refusal: ActionRefusal | null = null;
+    executeCommand(treeHistory.createBatchCommand(currentStore, orderedIds.map(nodeId => (batchStore: TreeStore) => {
+      const position = treeStore.getPosition(batchStore, nodeId);
+      if (!position) return null;
+      const neighbourId = treeStore.getChildIds(batchStore, position.parentId)[position.index + direction];
+      const nodeRefusal = neighbourId ? treeRules.checkMove(batchStore, rulesRef.current, [nodeId], neighbourId, direction === -1 ? 'above' : 'below') : null;
+      if (!neighbourId || blockedIds.has(neighbourId) || nodeRefusal) {
+        refusal = refusal ?? nodeRefusal;
+        blockedIds.add(nodeId);
+        return null;
+      }
+      return treeHistory.createMoveCommand(batchStore, nodeId, { parentId: position.parentId, index: position.index + direction });
+    })));
+    reportRefusal(refusal);
+  }, [storeRef, reportRefusal, executeCommand]);
 
-  const handleToggleExpand = useCallback(async (nodeId: string, currentIsExpanded: boolean, currentChildren: ITreeNode[] | true | undefined, currentLevel: number) => {
-    setTreeData(prevTreeData => updateNodeInTree(prevTreeData, nodeId, node => {
-      return { ...node, isExpanded: !currentIsExpanded };
-    }));
-
-    // Lazy loading logic
-    if (!currentIsExpanded && currentChildren === true) {
-      const loadedChildren = await simulateApiCall(nodeId, currentLevel);
-      setTreeData(prevTreeData => updateNodeInTree(prevTreeData, nodeId, node => {
-        return {
-          ...node,
-          children: loadedChildren,
-          hasChildren: loadedChildren.length > 0,
-        };
-      }));
+  // Swaps in a whole new tree; in-flight loads and the undo history belong to the old one
+  const replaceTree = useCallback((tree: TreeData) => {
+    replace(tree);
+    resetOperations();
+  }, [replace, resetOperations]);
+
+  // Parses input and either replaces the tree with it or appends it under parentId (null for root) as one undo step
+  const importNodes = useCallback(async (input: string, format: TreeFormat, { mode = 'replace', parentId = null }: ImportOptions = {}): Promise<ImportResult> => {
+    const result = treeFormats.importTree(input, format);
+    if (result.errors.length > 0) return result;
+    if (mode === 'replace') {
+      replaceTree(result.tree);
+      return result;
     }
-  }, []);
 
-  const handleAddNode = useCallback((parentId: string | null) => {
-    const nodeName = prompt('Enter new node name:');
-    if (nodeName) {
-      const newNode: ITreeNode = {
-        id: generateId(),
-        name: nodeName,
-        children: [],
-        isExpanded: false,
-        hasChildren: false,
-        parentId: parentId, // Temporary, will be set correctly by addNodeToTree
-      };
-      setTreeData(prevTreeData => addNodeToTree(prevTreeData, parentId, newNode));
+    // An unloaded lazy parent is loaded first, so the imported nodes join its real children
+    if (parentId !== null && !treeStore.getNode(storeRef.current, parentId)) return { tree: [], errors: [{ message: 'The target node no longer exists' }] };
+    if (!(await ensureChildrenLoaded(parentId))) return { tree: [], errors: [{ message: 'Could not load the children of the target node' }] };
+    const nodes = setParentIds(result.tree, parentId);
+    executeCommand(treeHistory.createBatchCommand(storeRef.current, nodes.map(node => (batchStore: TreeStore) => {
+      return treeHistory.createAddCommand(batchStore, parentId, node);
+    })));
+    return { ...result, tree: nodes };
+  }, [storeRef, replaceTree, ensureChildrenLoaded, executeCommand]);
+
+  // Serializes the whole tree, or just one node's subtree
+  const exportNodes = useCallback((format: TreeFormat, nodeId?: string): string => {
+    const currentStore = storeRef.current;
+    const tree = nodeId && treeStore.getNode(currentStore, nodeId) ? [treeStore.getTreeNode(currentStore, nodeId)] : treeStore.toTree(currentStore);
+    return treeFormats.exportTree(tree, format);
+  }, [storeRef]);
+
+  // Adds nodes, subtrees included, at a drop target as one undo step: copies with fresh ids, or with their own ids
+  // (keepIds, for nodes moved in from another tree) unless one of them is taken. Each gets a name validateName
+  // accepts, e.g. "Docs (copy)" next to "Docs". Resolves to whether they were added.
+  const insertSubtrees = useCallback(async (nodes: ITreeNode[], targetNodeId: string | null, position: DropPosition, keepIds: boolean = false): Promise<boolean> => {
+    if (reportRefusal(treeRules.checkCopy(storeRef.current, rulesRef.current, nodes, targetNodeId, position))) return false;
+    const target = targetNodeId === null ? null : treeStore.getNode(storeRef.current, targetNodeId);
+    const parentId = treeModel.getDropParentId(storeRef.current, targetNodeId, position);
+
+    // An unloaded lazy parent is loaded first, so the copies join its real children
+    if (!(await ensureChildrenLoaded(parentId))) return false;
+    const currentStore = storeRef.current;
+    const targetIndex = target && position !== 'child' ? treeStore.getChildIds(currentStore, parentId).indexOf(target.id) : -1;
+    executeCommand(treeHistory.createBatchCommand(currentStore, nodes.map((node, i) => (batchStore: TreeStore) => {
+      const name = treeRules.getCopyName(batchStore, rulesRef.current, parentId, node.name);
+      const index = targetIndex === -1 ? undefined : targetIndex + (position === 'below' ? 1 : 0) + i;
+      const canKeepIds = keepIds && !collectIds(node).some(id => treeStore.getNode(batchStore, id));
+      const subtree = canKeepIds ? setParentIds([{ ...node, name }], parentId)[0] : cloneWithFreshIds({ ...node, name }, parentId);
+      return treeHistory.createAddCommand(batchStore, parentId, subtree, index);
+    })));
+    return true;
+  }, [storeRef, reportRefusal, ensureChildrenLoaded, executeCommand]);
+
+  // Copies each node, subtree included, right after itself as one undo step
+  const duplicateNodes = useCallback((nodeIds: string[]) => {
+    const currentStore = storeRef.current;
+    const topLevelIds = treeStore.getTopLevelIds(currentStore, nodeIds);
+    const refusal = topLevelIds.reduce<ActionRefusal | null>((found, nodeId) => {
+      return found ?? treeRules.checkCopy(currentStore, rulesRef.current, [treeStore.getTreeNode(currentStore, nodeId)], nodeId, 'below');
+    }, null);
+    if (reportRefusal(refusal)) return;
+    executeCommand(treeHistory.createBatchCommand(currentStore, topLevelIds.map(nodeId => (batchStore: TreeStore) => {
+      const position = treeStore.getPosition(batchStore, nodeId);
+      if (!position) return null;
+      const node = treeStore.getTreeNode(batchStore, nodeId);
+      const name = treeRules.getCopyName(batchStore, rulesRef.current, position.parentId, node.name);
+      return treeHistory.createAddCommand(batchStore, position.parentId, cloneWithFreshIds({ ...node, name }, position.parentId), position.index + 1);
+    })));
+  }, [storeRef, reportRefusal, executeCommand]);
+
+  // Cut nodes stay in place, dimmed, until they are pasted somewhere
+  const cutNodes = useCallback((nodeIds: string[]) => {
+    const topLevelIds = treeStore.getTopLevelIds(storeRef.current, nodeIds);
+    if (reportRefusal(treeRules.checkDrag(storeRef.current, rulesRef.current, topLevelIds))) return;
+    setClipboard({ mode: 'cut', nodeIds: topLevelIds });
+  }, [storeRef, reportRefusal]);
+
+  const copyNodes = useCallback((nodeIds: string[]) => {
+    const currentStore = storeRef.current;
+    setClipboard({ mode: 'copy', nodes: treeStore.getTopLevelIds(currentStore, nodeIds).map(nodeId => treeStore.getTreeNode(currentStore, nodeId)) });
+  }, [storeRef]);
+
+  // Moves the cut nodes to the target, under the same rules as a drop, or adds another set of copies
+  const pasteNodes = useCallback((targetNodeId: string | null, position: DropPosition) => {
+    if (clipboard?.mode === 'cut') {
+      const nodeIds = clipboard.nodeIds.filter(nodeId => treeStore.getNode(storeRef.current, nodeId));
+      if (nodeIds.length === 0) {
+        setClipboard(null);
+      } else {
+        moveNodes(nodeIds, targetNodeId, position).then(isMoved => {
+          if (isMoved) setClipboard(null);
+        });
+      }
+    } else if (clipboard?.mode === 'copy') {
+      insertSubtrees(clipboard.nodes, targetNodeId, position);
     }
+  }, [storeRef, clipboard, moveNodes, insertSubtrees]);
+
+  // Opens the inline "new node" row, at the end of the parent's children or above the node beforeId, expanding
+  // (and loading) the parent first
+  const handleAddNode = useCallback((parentId: string | null, beforeId?: string) => {
+    // Refuse before asking for a name that couldn't be used
+    const nodeType = treeRules.getDefaultChildType(storeRef.current, rulesRef.current.schema, parentId);
+    if (reportRefusal(treeRules.checkAdd(storeRef.current, rulesRef.current, parentId, nodeType))) return;
+    if (parentId !== null) setViewExpanded(parentId, true);
+    setDraft({ parentId, beforeId });
+  }, [storeRef, reportRefusal, setViewExpanded]);
+
+  // Opens the "new node" row right above or below a node, among its siblings
+  const handleAddSibling = useCallback((nodeId: string, position: 'above' | 'below') => {
+    const record = treeStore.getNode(storeRef.current, nodeId);
+    if (!record) return;
+    const siblingIds = treeStore.getChildIds(storeRef.current, record.parentId);
+    // "Below" is the same place as "above the next sibling", or the end of the list for the last one
+    const beforeId = position === 'above' ? nodeId : siblingIds[siblingIds.indexOf(nodeId) + 1];
+    handleAddNode(record.parentId, beforeId);
+  }, [storeRef, handleAddNode]);
+
+  // The nodes an action on a row applies to: the whole selection when the row is part of it
+  const getActedOnIds = useCallback((nodeId: string) => {
+    return selectedIdsRef.current.has(nodeId) ? getSelectedIds() : [nodeId];
+  }, [getSelectedIds]);
+
+  // Deletes right away (removing a selected node removes the whole selection) and offers "Undo" for a while
+  const handleRemoveNode = useCallback((nodeId: string): boolean => {
+    const nodeIds = getActedOnIds(nodeId);
+    const name = treeStore.getNode(storeRef.current, nodeId)?.name;
+    const command = removeNodes(nodeIds);
+    if (!command) return false;
+    setDeletion({ message: nodeIds.length > 1 ? `Deleted ${nodeIds.length} nodes` : `Deleted "${name}"`, command });
+    return true;
+  }, [storeRef, getActedOnIds, removeNodes]);
+
+  // Undoes the offered delete, unless other edits have been made on top of it since
+  const handleUndoDeletion = useCallback(() => {
+    if (deletion && treeHistory.isLatestCommand(historyRef.current, deletion.command)) stepHistory('undo');
+    setDeletion(null);
+  }, [historyRef, deletion, stepHistory]);
+
+  useEffect(() => {
+    if (!deletion) return;
+    const timeoutId = window.setTimeout(() => setDeletion(null), UNDO_TOAST_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [deletion]);
+
+  const handleEditNodeName = useCallback((nodeId: string, newName: string) => {
+    renameNode(nodeId, newName);
+  }, [renameNode]);
+
+  // Inline validation for the rename and "new node" inputs; the same check runs again when the name is applied
+  const getNameError = useCallback((parentId: string | null, name: string, nodeId?: string): string | null => {
+    return treeRules.checkName(storeRef.current, rulesRef.current, parentId, name, nodeId)?.message ?? null;
+  }, [storeRef]);
+
+  // --- Selection ---
+
+  const updateSelection = useCallback((nodeIds: string[]) => {
+    setSelectedIds(nodeIds);
+    onSelectionChangeRef.current?.(nodeIds);
   }, []);
 
-  const handleRemoveNode = useCallback((nodeId: string) => {
-    if (window.confirm('Are you sure you want to delete this node and all its children?')) {
-      setTreeData(prevTreeData => removeNodeFromTree(prevTreeData, nodeId));
+  // Plain click selects one node, Ctrl/Cmd toggles it, Shift selects the visible rows from the anchor
+  const handleSelectNode = useCallback((nodeId: string, { toggle = false, range = false }: SelectionModifiers) => {
+    const rowKeys = rowKeysRef.current;
+    const currentIds = getSelectedIds();
+    const anchorIndex = selectionAnchorRef.current ? rowKeys.indexOf(selectionAnchorRef.current) : -1;
+    const index = rowKeys.indexOf(nodeId);
+    if (range && anchorIndex !== -1 && index !== -1) {
+      const rangeIds = rowKeys.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      updateSelection(toggle ? Array.from(new Set([...currentIds, ...rangeIds])) : rangeIds);
+      return;
     }
-  }, []);
 
-  const handleEditNodeName = useCallback((nodeId: string, newName: string) => {
-    setTreeData(prevTreeData => updateNodeInTree(prevTreeData, nodeId, node => {
-      return { ...node, name: newName };
-    }));
+    selectionAnchorRef.current = nodeId;
+    if (toggle) {
+      updateSelection(currentIds.includes(nodeId) ? currentIds.filter(id => id !== nodeId) : [...currentIds, nodeId]);
+    } else {
+      updateSelection([nodeId]);
+    }
+  }, [getSelectedIds, updateSelection]);
+
+  // --- Persistence ---
+
+  const pendingExpandIdsRef = useRef(new Set<string>()); // Restored expanded nodes that aren't in the tree yet
+
+  // Expands restored nodes as soon as they exist; expanding a lazy one loads it, which may bring in more of them
+  const expandRestoredNodes = useCallback(() => {
+    pendingExpandIdsRef.current.forEach(nodeId => {
+      const record = treeStore.getNode(storeRef.current, nodeId);
+      if (!record) return;
+      pendingExpandIdsRef.current.delete(nodeId);
+      if (!record.isExpanded || record.childIds === true) setExpanded(nodeId, true);
+    });
+  }, [storeRef, setExpanded]);
+
+  useEffect(() => {
+    expandRestoredNodes();
+  }, [store, expandRestoredNodes]);
+
+  const restorePersistedState = useCallback((state: PersistedTreeState) => {
+    if (state.tree) {
+      const tree = setParentIds(state.tree, null);
+      reserveIds(tree); // Nodes added from now on must not reuse a restored id
+      replaceTree(tree);
+    } else {
+      // Only UI state was saved: collapse whatever the initial data expands that wasn't expanded before
+      const expandedIds = new Set(state.expandedIds);
+      Object.values(storeRef.current.byId).forEach(node => {
+        if (node.isExpanded && !expandedIds.has(node.id)) setExpanded(node.id, false);
+      });
+    }
+    pendingExpandIdsRef.current = new Set(state.expandedIds);
+    expandRestoredNodes();
+    updateSelection(state.selectedIds); // Ids that haven't loaded yet count as selected once they do
+  }, [storeRef, replaceTree, setExpanded, expandRestoredNodes, updateSelection]);
+
+  const reportError = useCallback((error: TreeViewError) => onErrorRef.current?.(error), []);
+  useTreePersistence(persist, { store, selectedIds, onRestore: restorePersistedState, onError: reportError });
+
+  // --- Checkboxes ---
+
+  const reportChecked = useCallback((nextCheckedIds: string[]) => {
+    lastReportedCheckedRef.current = nextCheckedIds;
+    onCheckedChangeRef.current?.(nextCheckedIds);
   }, []);
 
-  // --- Drag and Drop Logic ---
+  const setNodeChecked = useCallback((nodeId: string, isChecked: boolean) => {
+    const currentStore = storeRef.current;
+    const nextCheckedIdSet = treeChecks.setChecked(currentStore, checkedIdSetRef.current, nodeId, isChecked);
+    const nextCheckedIds = treeChecks.getReportedIds(currentStore, nextCheckedIdSet, checkedStrategy);
+    if (isSameIdList(nextCheckedIds, reportedCheckedIdsRef.current)) return;
+    if (!isCheckedControlled) {
+      setInternalCheckedIds(nextCheckedIds);
+    }
+    reportChecked(nextCheckedIds);
+  }, [storeRef, checkedStrategy, isCheckedControlled, reportChecked]);
+
+  // Loads, removals and moves can change the reported ids without a click, e.g. a checked lazy node reporting its new leaves
+  useEffect(() => {
+    if (lastReportedCheckedRef.current === null) {
+      lastReportedCheckedRef.current = reportedCheckedIds;
+    } else if (!isSameIdList(reportedCheckedIds, lastReportedCheckedRef.current)) {
+      reportChecked(reportedCheckedIds);
+    }
+  }, [reportedCheckedIds, reportChecked]);
+
+  // --- Focus and Keyboard Navigation ---
 
-  const handleDragStart = useCallback((item: DragItem) => {
-    setDraggedItem(item);
+  const getNodeElement = useCallback((nodeId: string) => {
+    return containerRef.current?.querySelector<HTMLElement>(`[data-node-id="${CSS.escape(nodeId)}"]`) ?? null;
   }, []);
 
-  // Visual feedback for drag-over is handled in TreeNode itself
-  const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>, targetNodeId: string | null, dropPosition: 'above' | 'below' | 'child') => {
-    event.preventDefault(); // Crucial to allow drops
-    // Further global drag-over logic if needed (e.g., highlighting entire root area)
+  const focusNode = useCallback((nodeId: string) => {
+    pendingFocusIdRef.current = nodeId;
+    setFocusedId(nodeId);
   }, []);
 
-  const handleDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>) => {
-    // Global drag-leave logic
+  // Runs after every render: the target row may only appear after an expand, a move or (when virtualized) a scroll
+  useEffect(() => {
+    const nodeId = pendingFocusIdRef.current;
+    if (!nodeId) return;
+    const element = getNodeElement(nodeId);
+    if (element) {
+      element.focus({ preventScroll: virtualized });
+      if (virtualized) scrollToRowIndex(rowKeys.indexOf(nodeId));
+      pendingFocusIdRef.current = null;
+    } else if (virtualized) {
+      scrollToRowIndex(rowKeys.indexOf(nodeId));
+    }
+  });
+
+  const handleStartEditing = useCallback((nodeId: string) => {
+    setFocusedId(nodeId);
+    if (reportRefusal(treeRules.checkRename(storeRef.current, rulesRef.current, nodeId))) return;
+    setEditingId(nodeId);
+  }, [storeRef, reportRefusal]);
+
+  const handleStopEditing = useCallback(() => {
+    setEditingId(null);
   }, []);
 
-  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>, targetNodeId: string | null, dropPosition: 'above' | 'below' | 'child') => {
-    event.preventDefault();
-    if (!draggedItem || draggedItem.id === targetNodeId) {
-      setDraggedItem(null);
+  // Enter and Escape move focus to the new node or back to its parent; clicking away leaves focus where it went
+  const handleDraftCommit = useCallback((parentId: string | null, beforeId: string | undefined, name: string, fromKeyboard: boolean) => {
+    setDraft(null);
+    const beforePosition = beforeId ? treeStore.getPosition(storeRef.current, beforeId) : null;
+    const newNode = insertNode(parentId, name, beforePosition?.parentId === parentId ? beforePosition.index : undefined);
+    if (newNode && fromKeyboard) focusNode(newNode.id);
+  }, [storeRef, insertNode, focusNode]);
+
+  const handleDraftCancel = useCallback((parentId: string | null, fromKeyboard: boolean) => {
+    setDraft(null);
+    if (parentId !== null && fromKeyboard) focusNode(parentId);
+  }, [focusNode]);
+
+  const renderDraft = useCallback((level: number) => {
+    if (!draft) return null;
+    const { parentId, beforeId } = draft;
+    return (
+      <div className={`tree-node-wrapper level-${level}`} style={{ '--level': level } as React.CSSProperties}>
+        <div className="tree-node tree-node-draft" role={rowRole} aria-level={level + 1} aria-selected={false}>
+          <div className="node-content" role={rowRole === 'row' ? 'gridcell' : undefined}>
+            <div className="node-label-actions">
+              <NodeNameInput
+                initialName=""
+                getError={name => getNameError(parentId, name)}
+                onCommit={(name, fromKeyboard) => handleDraftCommit(parentId, beforeId, name, fromKeyboard)}
+                onCancel={fromKeyboard => handleDraftCancel(parentId, fromKeyboard)}
+                aria-label="New node name"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }, [draft, rowRole, getNameError, handleDraftCommit, handleDraftCancel]);
+
+  // Deletes from a row that has focus, then focuses the nearest row that survived, preferring the rows above
+  const removeFocusedNode = useCallback((nodeId: string) => {
+    const index = visibleNodes.findIndex(({ node }) => node.id === nodeId);
+    if (!handleRemoveNode(nodeId)) return;
+    const remaining = (visibleNode: VisibleNode) => !!treeStore.getNode(storeRef.current, visibleNode.node.id);
+    const fallback = visibleNodes.slice(0, index).reverse().find(remaining) ?? visibleNodes.slice(index + 1).find(remaining);
+    if (fallback) focusNode(fallback.node.id);
+  }, [storeRef, visibleNodes, handleRemoveNode, focusNode]);
+
+  // --- Context Menu ---
+
+  // Opens the menu for a row at a viewport position; a row outside the selection becomes the selection first
+  const openContextMenu = useCallback((nodeId: string, position: { x: number; y: number }) => {
+    if (!selectedIdsRef.current.has(nodeId)) handleSelectNode(nodeId, {});
+    setFocusedId(nodeId);
+    setContextMenu({ nodeId, ...position });
+  }, [handleSelectNode]);
+
+  const closeContextMenu = useCallback((fromKeyboard: boolean) => {
+    if (contextMenu && fromKeyboard) focusNode(contextMenu.nodeId);
+    setContextMenu(null);
+  }, [contextMenu, focusNode]);
+
+  // The row gets focus back before the action runs, so actions that move focus on (Rename, Add) keep it there
+  const handleContextMenuSelect = useCallback((item: ContextMenuItem) => {
+    if (contextMenu) getNodeElement(contextMenu.nodeId)?.focus({ preventScroll: true });
+    setContextMenu(null);
+    if (item.type !== 'separator') item.onSelect();
+  }, [contextMenu, getNodeElement]);
+
+  // The built-in entries act on the whole selection when the row is part of it; contextMenuItems may change them
+  const getContextMenuItems = useCallback((nodeId: string): ContextMenuItem[] => {
+    const currentStore = storeRef.current;
+    if (!treeStore.getNode(currentStore, nodeId)) return [];
+    const nodeIds = getActedOnIds(nodeId);
+    const defaultItems: ContextMenuItem[] = [
+      { id: 'add-child', label: 'Add child', onSelect: () => handleAddNode(nodeId) },
+      { id: 'add-sibling-above', label: 'Add sibling above', onSelect: () => handleAddSibling(nodeId, 'above') },
+      { id: 'add-sibling-below', label: 'Add sibling below', onSelect: () => handleAddSibling(nodeId, 'below') },
+      { type: 'separator', id: 'add-separator' },
+      { id: 'rename', label: 'Rename', onSelect: () => handleStartEditing(nodeId), disabled: !!treeRules.checkRename(currentStore, rulesRef.current, nodeId) },
+      { id: 'duplicate', label: 'Duplicate', onSelect: () => duplicateNodes(nodeIds) },
+      { type: 'separator', id: 'edit-separator' },
+      { id: 'cut', label: 'Cut', onSelect: () => cutNodes(nodeIds), disabled: !!treeRules.checkDrag(currentStore, rulesRef.current, nodeIds) },
+      { id: 'copy', label: 'Copy', onSelect: () => copyNodes(nodeIds) },
+      { id: 'paste-child', label: 'Paste as child', onSelect: () => pasteNodes(nodeId, 'child'), disabled: !clipboard },
+      { id: 'paste-sibling', label: 'Paste as sibling', onSelect: () => pasteNodes(nodeId, 'below'), disabled: !clipboard },
+      { type: 'separator', id: 'clipboard-separator' },
+      {
+        id: 'delete',
+        label: nodeIds.length > 1 ? `Delete ${nodeIds.length} nodes` : 'Delete',
+        onSelect: () => removeFocusedNode(nodeId),
+        disabled: !!treeRules.checkRemove(currentStore, rulesRef.current, nodeIds),
+      },
+    ];
+    return contextMenuItems ? contextMenuItems(treeStore.getTreeNode(currentStore, nodeId), defaultItems) : defaultItems;
+  }, [storeRef, clipboard, contextMenuItems, getActedOnIds, handleAddNode, handleAddSibling, handleStartEditing, duplicateNodes, cutNodes, copyNodes, pasteNodes, removeFocusedNode]);
+
+  const contextMenuEntries = useMemo(() => (contextMenu ? getContextMenuItems(contextMenu.nodeId) : []), [contextMenu, getContextMenuItems]);
+
+  // Index of the previous or next sibling of the row at `index`, or -1 if there is none
+  const findSiblingIndex = useCallback((index: number, direction: 1 | -1) => {
+    const { level } = visibleNodes[index];
+    for (let i = index + direction; i >= 0 && i < visibleNodes.length; i += direction) {
+      if (visibleNodes[i].level === level) return i;
+      if (visibleNodes[i].level < level) break;
+    }
+    return -1;
+  }, [visibleNodes]);
+
+  const findParentIndex = useCallback((index: number) => {
+    const { level } = visibleNodes[index];
+    for (let i = index - 1; i >= 0; i--) {
+      if (visibleNodes[i].level < level) return i;
+    }
+    return -1;
+  }, [visibleNodes]);
+
+  // Focuses the next row whose name starts with the typed characters, cycling from the current row
+  const handleTypeAhead = useCallback((character: string, fromIndex: number) => {
+    const typeAhead = typeAheadRef.current;
+    window.clearTimeout(typeAhead.timeoutId);
+    typeAhead.query += character.toLowerCase();
+    typeAhead.timeoutId = window.setTimeout(() => { typeAhead.query = ''; }, TYPE_AHEAD_RESET_MS);
+
+    const startIndex = typeAhead.query.length === 1 ? fromIndex + 1 : fromIndex;
+    for (let i = 0; i < visibleNodes.length; i++) {
+      const { node } = visibleNodes[(startIndex + i) % visibleNodes.length];
+      if (node.name.toLowerCase().startsWith(typeAhead.query)) {
+        focusNode(node.id);
+        return;
+      }
+    }
+  }, [visibleNodes, focusNode]);
+
+  const handleTreeKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.getAttribute('role') !== rowRole) return; // Ignore keys typed into the rename input or a column header
+    const index = visibleNodes.findIndex(({ node }) => node.id === target.dataset.nodeId);
+    if (index === -1) return;
+
+    const { node, level } = visibleNodes[index];
+    const isExpanded = node.isExpanded ?? false;
+    const hasChildren = node.hasChildren ?? (node.children === true || (Array.isArray(node.children) && node.children.length > 0));
+    const parentIndex = findParentIndex(index);
+
+    // Alt+Arrow moves the node: an accessible alternative to drag and drop
+    if (event.altKey) {
+      if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+        // Up/Down move the whole selection when the focused node is part of it
+        event.preventDefault();
+        if (isSortedBranch(node.parentId)) return;
+        shiftNodes(selectedIdSet.has(node.id) ? getSelectedIds() : [node.id], event.key === 'ArrowUp' ? -1 : 1);
+        focusNode(node.id);
+        return;
+      }
+      const previousSiblingIndex = findSiblingIndex(index, -1);
+      let move: [string, DropPosition] | null = null;
+      if (event.key === 'ArrowRight' && previousSiblingIndex !== -1) {
+        move = [visibleNodes[previousSiblingIndex].node.id, 'child']; // Indent under the previous sibling
+      } else if (event.key === 'ArrowLeft' && parentIndex !== -1) {
+        move = [visibleNodes[parentIndex].node.id, 'below']; // Outdent to just after the parent
+      }
+      if (move) {
+        event.preventDefault();
+        moveNode(node.id, move[0], move[1]);
+        focusNode(node.id);
+      }
+      return;
+    }
+    if (event.ctrlKey || event.metaKey) {
+      // Ctrl+Z undoes; Ctrl+Shift+Z or Ctrl+Y redoes. Focus follows the node that changed.
+      const key = event.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        const command = stepHistory(key === 'y' || event.shiftKey ? 'redo' : 'undo');
+        const changedNodeId = command && treeHistory.getCommandNodeId(command);
+        if (changedNodeId && treeStore.getNode(storeRef.current, changedNodeId)) focusNode(changedNodeId);
+      } else if (key === 'a') {
+        event.preventDefault();
+        updateSelection(rowKeys);
+      }
       return;
     }
 
-    setTreeData(prevTreeData => {
-      // 1. Find the actual dragged node object (deep copy it to avoid mutation issues during removal)
-      const findNodeDeepCopy = (nodes: TreeData, id: string): ITreeNode | null => {
-        for (const node of nodes) {
-          if (node.id === id) return JSON.parse(JSON.stringify(node));
-          if (node.children && Array.isArray(node.children)) {
-            const found = findNodeDeepCopy(node.children, id);
-            if (found) return found;
-          }
-        }
-        return null;
-      };
-      const draggedNode = findNodeDeepCopy(prevTreeData, draggedItem.id);
-      if (!draggedNode) return prevTreeData;
-
-      // Check for dropping a node into its own descendant
-      if (targetNodeId && isAncestor(draggedItem.id, targetNodeId, prevTreeData)) {
-          console.warn("Cannot drop a node into its own descendant.");
-          setDraggedItem(null);
-          return prevTreeData;
+    // Shift+Up/Down extend the selection from the anchor as focus moves
+    const moveFocusTo = (nextIndex: number) => {
+      const nextNodeId = visibleNodes[nextIndex].node.id;
+      if (event.shiftKey) {
+        if (!selectionAnchorRef.current) selectionAnchorRef.current = node.id;
+        handleSelectNode(nextNodeId, { range: true });
       }
+      focusNode(nextNodeId);
+    };
 
-      // 2. Remove dragged node from its original position (creates a new tree state)
-      let treeAfterRemoval = removeNodeFromTree(prevTreeData, draggedItem.id);
-
-      // 3. Insert dragged node into new position
-      const nodeToInsert = { ...draggedNode }; // Ensure parentId is reset for re-insertion
-
-      if (dropPosition === 'child' && targetNodeId) {
-        // Drop as a child of the target node
-        const targetParentLocation = findNodeAndLocation(treeAfterRemoval, targetNodeId);
-        if (targetParentLocation) {
-            return updateNodeInTree(treeAfterRemoval, targetNodeId, node => {
-                const childrenArray = Array.isArray(node.children) ? node.children : [];
-                return {
-                    ...node,
-                    children: [...childrenArray, { ...nodeToInsert, parentId: node.id }],
-                    hasChildren: true,
-                    isExpanded: true, // Auto-expand parent when dropping a child
-                };
-            });
+    switch (event.key) {
+      case 'ArrowDown':
+        if (index < visibleNodes.length - 1) moveFocusTo(index + 1);
+        break;
+      case 'ArrowUp':
+        if (index > 0) moveFocusTo(index - 1);
+        break;
+      case ' ':
+        // In checkbox mode Space toggles the checkbox; rows without one keep toggling selection
+        if (checkedStates?.has(node.id)) {
+          setNodeChecked(node.id, checkedStates.get(node.id) !== 'checked');
+        } else {
+          handleSelectNode(node.id, { toggle: true });
+        }
+        break;
+      case 'Escape':
+        updateSelection([]);
+        break;
+      case 'ArrowRight':
+        if (hasChildren && !isExpanded) {
+          setViewExpanded(node.id, true);
+        } else if (isExpanded && visibleNodes[index + 1]?.level === level + 1) {
+          focusNode(visibleNodes[index + 1].node.id);
         }
-      } else { // 'above' or 'below' target sibling OR dropping at root level
-        let newSiblings: ITreeNode[] = [];
-        let newParentId: string | null = null;
-        let insertIndex = 0;
-
-        if (targetNodeId) { // Dropping near an existing sibling node
-          const targetSiblingLocation = findNodeAndLocation(treeAfterRemoval, targetNodeId);
-          if (targetSiblingLocation) {
-            newParentId = targetSiblingLocation.parent?.id || null;
-            newSiblings = newParentId === null ? [...treeAfterRemoval] : [...(targetSiblingLocation.parent?.children as ITreeNode[] || [])];
-            insertIndex = dropPosition === 'above' ? targetSiblingLocation.index : targetSiblingLocation.index + 1;
-          }
-        } else { // Dropping at root level (targetNodeId is null)
-          newParentId = null;
-          newSiblings = [...treeAfterRemoval];
-          insertIndex = newSiblings.length; // Append to end of root
+        break;
+      case 'ArrowLeft':
+        if (hasChildren && isExpanded) {
+          setViewExpanded(node.id, false);
+        } else if (parentIndex !== -1) {
+          focusNode(visibleNodes[parentIndex].node.id);
         }
+        break;
+      case 'Home':
+        focusNode(visibleNodes[0].node.id);
+        break;
+      case 'End':
+        focusNode(visibleNodes[visibleNodes.length - 1].node.id);
+        break;
+      case 'Enter':
+        if (hasChildren) setViewExpanded(node.id, !isExpanded);
+        break;
+      case 'F2':
+        handleStartEditing(node.id);
+        break;
+      case 'Delete':
+        removeFocusedNode(node.id);
+        break;
+      case 'Insert':
+        handleAddNode(node.id);
+        break;
+      case '*': {
+        // Expands every sibling of the focused node, as in a native tree view
+        const currentStore = storeRef.current;
+        const parent = node.parentId ? treeStore.getNode(currentStore, node.parentId) : undefined;
+        const siblingIds = parent ? (Array.isArray(parent.childIds) ? parent.childIds : []) : currentStore.rootIds;
+        siblingIds.forEach(siblingId => {
+          const sibling = treeStore.getNode(currentStore, siblingId);
+          if (sibling && treeStore.isExpandable(sibling) && !sibling.isExpanded) setViewExpanded(siblingId, true);
+        });
+        break;
+      }
+      case 'F10':
+      case 'ContextMenu': {
+        if (event.key === 'F10' && !event.shiftKey) return; // Only Shift+F10 opens the menu
+        const rect = target.getBoundingClientRect();
+        openContextMenu(node.id, { x: rect.left + rect.height / 2, y: rect.bottom });
+        break;
+      }
+      default:
+        if (event.key.length === 1) {
+          handleTypeAhead(event.key, index);
+          break;
+        }
+        return; // Leave unhandled keys alone
+    }
+    event.preventDefault();
+  }, [storeRef, rowRole, visibleNodes, rowKeys, selectedIdSet, getSelectedIds, findParentIndex, findSiblingIndex, isSortedBranch, moveNode, shiftNodes, stepHistory, focusNode, setViewExpanded, updateSelection, handleSelectNode, checkedStates, setNodeChecked, handleStartEditing, removeFocusedNode, handleAddNode, openContextMenu, handleTypeAhead]);
 
-        const newNodeWithCorrectParent = { ...nodeToInsert, parentId: newParentId };
-        newSiblings.splice(insertIndex, 0, newNodeWithCorrectParent);
+  // --- Search and Filter ---
 
-        if (newParentId) {
-            return updateNodeInTree(treeAfterRemoval, newParentId, parentNode => ({
-                ...parentNode,
-                children: newSiblings,
-                hasChildren: true,
-            }));
-        } else {
-            return newSiblings; // New root level array
+  const applyFilter = useCallback((nextFilter: TreeFilter | null) => {
+    setFilter(nextFilter && nextFilter.query ? nextFilter : null);
+    setFilterCollapsedIds(new Set());
+    setCurrentMatchIndex(-1);
+  }, []);
+
+  // Steps to the next (1) or previous (-1) match, wrapping around, and scrolls it into view
+  const stepMatch = useCallback((direction: 1 | -1) => {
+    if (matchIds.length === 0) return;
+    const nextIndex = currentMatchIndex === -1 && direction === -1
+      ? matchIds.length - 1
+      : (currentMatchIndex + direction + matchIds.length) % matchIds.length;
+    const matchId = matchIds[nextIndex];
+    setCurrentMatchIndex(nextIndex);
+    // Re-open any ancestor collapsed during the search; the real expansion state is left alone
+    const ancestorIds = (treeStore.getPath(storeRef.current, matchId) ?? []).slice(0, -1).map(ancestor => ancestor.id);
+    setFilterCollapsedIds(prevCollapsedIds => (
+      ancestorIds.some(id => prevCollapsedIds.has(id)) ? new Set(Array.from(prevCollapsedIds).filter(id => !ancestorIds.includes(id))) : prevCollapsedIds
+    ));
+    setFocusedId(matchId);
+    setPendingScrollId(matchId);
+  }, [storeRef, matchIds, currentMatchIndex]);
+
+  // Server-side search: load every lazy ancestor on the returned paths so the matches exist locally
+  useEffect(() => {
+    if (!filter || !searchNodes) return;
+    const controller = new AbortController();
+
+    const timeoutId = window.setTimeout(async () => {
+      setIsServerSearching(true);
+      setServerSearchError(null);
+      try {
+        const paths = await searchNodes(filter.query, { signal: controller.signal });
+        for (const path of paths) {
+          if (controller.signal.aborted) return;
+          await loadPath(path.map(treeModel.idStep), controller.signal);
         }
+      } catch (error) {
+        if (!controller.signal.aborted) setServerSearchError(error instanceof Error ? error.message : String(error));
+      } finally {
+        if (!controller.signal.aborted) setIsServerSearching(false);
+      }
+    }, SERVER_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      controller.abort();
+      setIsServerSearching(false);
+      setServerSearchError(null);
+    };
+  }, [filter, searchNodes, loadPath, serverSearchAttempt]);
+
+  // --- Imperative API ---
+
+  // Expands every collapsed ancestor so the node is rendered, then scrolls to it once it is in the DOM
+  const scrollToNode = useCallback((nodeId: string) => {
+    const path = treeStore.getPath(storeRef.current, nodeId);
+    if (!path) return;
+    path.slice(0, -1).forEach(ancestor => {
+      if (!ancestor.isExpanded) setExpanded(ancestor.id, true);
+    });
+    setPendingScrollId(nodeId);
+  }, [storeRef, setExpanded]);
+
+  useEffect(() => {
+    if (!pendingScrollId) return;
+    if (virtualized) {
+      // The row may not be rendered yet, so scroll by its computed offset instead
+      const index = rowKeys.indexOf(pendingScrollId);
+      if (index !== -1) {
+        scrollToRowIndex(index);
+        setPendingScrollId(null);
       }
-      return treeAfterRemoval; // Fallback
+      return;
+    }
+    const element = getNodeElement(pendingScrollId);
+    if (element) {
+      element.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+      setPendingScrollId(null);
+    }
+  }, [pendingScrollId, treeData, getNodeElement, virtualized, rowKeys, scrollToRowIndex]);
+
+  const [revealedId, setRevealedId] = useState<string | null>(null); // Highlighted for a moment after a reveal
+  const revealControllerRef = useRef<AbortController | null>(null); // The reveal in progress; a new one aborts it
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+
+  useEffect(() => () => revealControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!revealedId) return;
+    const timeoutId = window.setTimeout(() => setRevealedId(null), REVEAL_HIGHLIGHT_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [revealedId]);
+
+  // Loads the lazy nodes on a path, then expands down to its last node, scrolls to it, focuses and highlights it.
+  // A search could be hiding the node, so it is cleared first.
+  const revealAlongPath = useCallback(async (steps: treeModel.PathStep[], controller: AbortController): Promise<boolean> => {
+    const ids = await loadPath(steps, controller.signal);
+    if (!ids || ids.length === 0) return false;
+    const nodeId = ids[ids.length - 1];
+    if (filterRef.current) applyFilter(null);
+    scrollToNode(nodeId);
+    focusNode(nodeId);
+    setRevealedId(nodeId);
+    return true;
+  }, [loadPath, applyFilter, scrollToNode, focusNode]);
+
+  const startReveal = useCallback(() => {
+    revealControllerRef.current?.abort();
+    const controller = new AbortController();
+    revealControllerRef.current = controller;
+    return controller;
+  }, []);
+
+  // A node that isn't in the tree yet is located through resolveNodePath
+  const revealNode = useCallback(async (nodeId: string): Promise<boolean> => {
+    const controller = startReveal();
+    try {
+      const path = treeStore.getNode(storeRef.current, nodeId)
+        ? [...treeModel.getAncestorIds(storeRef.current, nodeId), nodeId]
+        : await resolveNodePathRef.current?.(nodeId, { signal: controller.signal });
+      if (!path || path[path.length - 1] !== nodeId || controller.signal.aborted) return false;
+      return await revealAlongPath(path.map(treeModel.idStep), controller);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        const message = error instanceof Error ? error.message : String(error);
+        onErrorRef.current?.({ source: 'reveal', nodeId, message: `Couldn't find node ${nodeId}: ${message}`, error });
+      }
+      return false;
+    }
+  }, [storeRef, startReveal, revealAlongPath]);
+
+  const revealPath = useCallback((names: string[]): Promise<boolean> => {
+    return revealAlongPath(names.map(treeModel.nameStep), startReveal());
+  }, [startReveal, revealAlongPath]);
+
+  // Reveals and selects a node, for hash links and breadcrumb clicks; false if it couldn't be revealed
+  const navigateToNode = useCallback(async (nodeId: string): Promise<boolean> => {
+    if (!(await revealNode(nodeId))) return false;
+    selectionAnchorRef.current = nodeId;
+    updateSelection([nodeId]);
+    return true;
+  }, [revealNode, updateSelection]);
+
+  useHashSync(hashParam, { selectedId: targetNodeId, onNavigate: navigateToNode });
+
+  useImperativeHandle(ref, () => ({
+    getTree: () => treeStore.toTree(storeRef.current),
+    expand: nodeId => setExpanded(nodeId, true),
+    collapse: nodeId => setExpanded(nodeId, false),
+    addNode: (parentId, name) => insertNode(parentId, name)?.id ?? null,
+    removeNode,
+    renameNode,
+    moveNode,
+    scrollToNode,
+    revealNode,
+    revealPath,
+    getSelection: getSelectedIds,
+    select: updateSelection,
+    getChecked: () => reportedCheckedIdsRef.current,
+    check: setNodeChecked,
+    importTree: importNodes,
+    exportTree: exportNodes,
+    filter: nextFilter => applyFilter(typeof nextFilter === 'string' ? { query: nextFilter } : nextFilter),
+    nextMatch: () => stepMatch(1),
+    previousMatch: () => stepMatch(-1),
+    undo: () => { stepHistory('undo'); },
+    redo: () => { stepHistory('redo'); },
+    canUndo: () => historyRef.current.past.length > 0,
+    canRedo: () => historyRef.current.future.length > 0,
+    expandAll: (nodeId = null) => expandBranch(nodeId),
+    collapseAll: (nodeId = null) => collapseBranch(nodeId),
+    expandToDepth,
+    cancelExpand,
+    applyRemoteOperations,
+  }), [historyRef, storeRef, setExpanded, insertNode, removeNode, renameNode, moveNode, scrollToNode, revealNode, revealPath, getSelectedIds, updateSelection, setNodeChecked, importNodes, exportNodes, applyFilter, stepMatch, stepHistory, expandBranch, collapseBranch, expandToDepth, cancelExpand, applyRemoteOperations]);
+
+  // --- Drag and Drop Logic ---
+
+  const lastDropRefusalRef = useRef<ActionRefusal | null>(null); // Why the last hovered drop target was refused
+  const treeId = useId(); // Tells this tree's drags apart from other trees' in the shared drag
+  const sharedDragRef = useSharedDrag();
+
+  // Dragging a selected node drags the whole selection; dragging any other node selects it alone.
+  // Returns the dragged ids, or null if canDrag refuses, which cancels the drag.
+  const pickUpNodes = useCallback((nodeId: string): string[] | null => {
+    const currentStore = storeRef.current;
+    const ids = selectedIdsRef.current.has(nodeId) ? treeStore.getTopLevelIds(currentStore, getSelectedIds()) : [nodeId];
+    if (reportRefusal(treeRules.checkDrag(currentStore, rulesRef.current, ids))) return null;
+    if (!selectedIdsRef.current.has(nodeId)) {
+      selectionAnchorRef.current = nodeId;
+      updateSelection([nodeId]);
+    }
+    lastDropRefusalRef.current = null;
+    return ids;
+  }, [storeRef, getSelectedIds, reportRefusal, updateSelection]);
+
+  const handleDragStart = useCallback((nodeId: string, dataTransfer: DataTransfer): string[] | null => {
+    const currentStore = storeRef.current;
+    const ids = pickUpNodes(nodeId);
+    if (!ids) return null;
+
+    // Other apps get the nodes as an outline and as JSON; a tree in another window reads them back as copies
+    const nodes = ids.map(nodeId => treeStore.getTreeNode(currentStore, nodeId));
+    const json = treeFormats.exportTree(nodes, 'json');
+    dataTransfer.effectAllowed = 'copyMove';
+    dataTransfer.setData(TREE_NODES_MIME, json);
+    dataTransfer.setData('application/json', json);
+    dataTransfer.setData('text/plain', treeFormats.exportTree(nodes, 'text'));
+
+    // Trees under the same TreeDragProvider take the nodes from here, so a move can remove them afterwards
+    if (sharedDragRef) {
+      sharedDragRef.current = {
+        sourceTreeId: treeId,
+        nodes,
+        releaseNodes: info => {
+          if (info.mode === 'move' && reportRefusal(treeRules.checkRemove(storeRef.current, rulesRef.current, ids))) return null;
+          return transformOutgoingRef.current ? transformOutgoingRef.current(nodes, info) : nodes;
+        },
+        removeFromSource: () => removeNodes(ids),
+      };
+    }
+    return ids;
+  }, [storeRef, pickUpNodes, reportRefusal, removeNodes, sharedDragRef, treeId]);
+
+  // Why the nodes dragged within this tree can't be dropped at a target, or null if they can
+  const checkDraggedDrop = useCallback((ids: string[], mode: DragMode, targetNodeId: string | null, dropPosition: DropPosition): ActionRefusal | null => {
+    const currentStore = storeRef.current;
+    return mode === 'copy'
+      ? treeRules.checkCopy(currentStore, rulesRef.current, ids.map(nodeId => treeStore.getTreeNode(currentStore, nodeId)), targetNodeId, dropPosition)
+      : treeRules.checkMove(currentStore, rulesRef.current, ids, targetNodeId, dropPosition);
+  }, [storeRef]);
+
+  const dropDraggedNodes = useCallback((ids: string[], mode: DragMode, targetNodeId: string | null, dropPosition: DropPosition) => {
+    if (mode === 'copy') {
+      insertSubtrees(ids.map(nodeId => treeStore.getTreeNode(storeRef.current, nodeId)), targetNodeId, dropPosition);
+    } else if (targetNodeId === null || !ids.includes(targetNodeId)) {
+      moveNodes(ids, targetNodeId, dropPosition);
+    }
+  }, [storeRef, insertSubtrees, moveNodes]);
+
+  // Hovering a collapsed node during a drag opens it after a moment (loading its children if needed), so a
+  // drop can reach deeper than what was expanded when the drag began
+  const hoverExpandRef = useRef<{ nodeId: string; timeoutId: number } | null>(null);
+  const scheduleHoverExpand = useCallback((nodeId: string | null) => {
+    if (hoverExpandRef.current?.nodeId === nodeId) return;
+    if (hoverExpandRef.current) window.clearTimeout(hoverExpandRef.current.timeoutId);
+    hoverExpandRef.current = null;
+    const record = nodeId !== null ? treeStore.getNode(storeRef.current, nodeId) : undefined;
+    if (!record || record.isExpanded || !treeStore.isExpandable(record)) return;
+    const timeoutId = window.setTimeout(() => {
+      hoverExpandRef.current = null;
+      setViewExpanded(record.id, true);
+    }, HOVER_EXPAND_MS);
+    hoverExpandRef.current = { nodeId: record.id, timeoutId };
+  }, [storeRef, setViewExpanded]);
+
+  useEffect(() => () => scheduleHoverExpand(null), [scheduleHoverExpand]);
+
+  // Edge scrolling for native drags; the pointer engine runs its own
+  const { update: updateDragAutoScroll, stop: stopDragAutoScroll } = useAutoScroll(containerRef);
+
+  // Checks the rules for the hovered drop target; returns whether dropping there is allowed.
+  // Visual feedback for drag-over is handled in TreeNode itself.
+  const handleDragOver = useCallback((event: React.DragEvent<HTMLElement>, targetNodeId: string | null, dropPosition: DropPosition): boolean => {
+    event.preventDefault(); // Crucial to allow drops
+    const currentStore = storeRef.current;
+    const mode = getDragMode(event);
+    const sharedDrag = sharedDragRef?.current;
+    let refusal: ActionRefusal | null = null;
+    let isAccepted = true;
+    scheduleHoverExpand(targetNodeId !== null && !draggedNodeIds.has(targetNodeId) ? targetNodeId : null);
+    if (draggedItem) {
+      refusal = checkDraggedDrop(draggedItem.ids ?? [draggedItem.id], mode, targetNodeId, dropPosition);
+    } else if (sharedDrag && sharedDrag.sourceTreeId !== treeId) {
+      refusal = treeRules.checkCopy(currentStore, rulesRef.current, sharedDrag.nodes, targetNodeId, dropPosition);
+    } else {
+      // From outside: serialized nodes are always welcome, files and text only with an onExternalDrop hook
+      const types = Array.from(event.dataTransfer.types);
+      isAccepted = types.includes(TREE_NODES_MIME) || (!!onExternalDropRef.current && (types.includes('Files') || types.includes('text/plain')));
+    }
+    lastDropRefusalRef.current = refusal;
+    const isAllowed = isAccepted && refusal === null;
+    event.dataTransfer.dropEffect = !isAllowed ? 'none' : draggedItem || sharedDrag ? mode : 'copy';
+    return isAllowed;
+  }, [storeRef, draggedItem, draggedNodeIds, checkDraggedDrop, scheduleHoverExpand, sharedDragRef, treeId]);
+
+  // Adds nodes dragged in from another TreeView; the source removes its own once a move has gone through
+  const receiveSharedDrag = useCallback(async (sharedDrag: SharedDrag, info: NodeTransferInfo) => {
+    const releasedNodes = sharedDrag.releaseNodes(info);
+    const nodes = releasedNodes && transformIncomingRef.current ? transformIncomingRef.current(releasedNodes, info) : releasedNodes;
+    if (!nodes || nodes.length === 0) return;
+    if (await insertSubtrees(nodes, info.targetNodeId, info.position, info.mode === 'move') && info.mode === 'move') {
+      sharedDrag.removeFromSource();
+    }
+  }, [insertSubtrees]);
+
+  // Serialized nodes (from a tree in another window) are added as copies; files and text go through onExternalDrop
+  const receiveExternalDrop = useCallback(async (dataTransfer: DataTransfer, targetNodeId: string | null, position: DropPosition) => {
+    // The drag data can only be read while the drop event is being handled, so copy it all out first
+    const data: Record<string, string> = {};
+    Array.from(dataTransfer.types).forEach(type => {
+      if (type !== 'Files') data[type] = dataTransfer.getData(type);
     });
+    const files = Array.from(dataTransfer.files);
 
+    let nodes: TreeData | null = null;
+    if (data[TREE_NODES_MIME]) {
+      const result = treeFormats.importTree(data[TREE_NODES_MIME], 'json');
+      const info: NodeTransferInfo = { mode: 'copy', targetNodeId, position };
+      nodes = result.errors.length > 0 ? null : transformIncomingRef.current ? transformIncomingRef.current(result.tree, info) : result.tree;
+    } else if (onExternalDropRef.current) {
+      nodes = await onExternalDropRef.current({ files, text: data['text/plain'] ?? '', data }, { targetNodeId, position });
+    }
+    if (nodes && nodes.length > 0) await insertSubtrees(nodes, targetNodeId, position);
+  }, [insertSubtrees]);
+
+  const handleDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    // Global drag-leave logic
+  }, []);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLElement>, targetNodeId: string | null, dropPosition: DropPosition) => {
+    event.preventDefault();
+    const mode = getDragMode(event);
+    const sharedDrag = sharedDragRef?.current;
+    scheduleHoverExpand(null);
+    stopDragAutoScroll();
+    if (draggedItem) {
+      dropDraggedNodes(draggedItem.ids ?? [draggedItem.id], mode, targetNodeId, dropPosition);
+    } else if (sharedDrag && sharedDrag.sourceTreeId !== treeId) {
+      receiveSharedDrag(sharedDrag, { mode, targetNodeId, position: dropPosition });
+    } else {
+      receiveExternalDrop(event.dataTransfer, targetNodeId, dropPosition);
+    }
     setDraggedItem(null); // Clear dragged item after drop
-  }, [draggedItem]);
+    lastDropRefusalRef.current = null;
+  }, [setDraggedItem, draggedItem, dropDraggedNodes, scheduleHoverExpand, stopDragAutoScroll, receiveSharedDrag, receiveExternalDrop, sharedDragRef, treeId]);
+
+  // Fires after a drop or a cancelled drag; a drag released over a refused target never gets a drop event
+  const handleDragEnd = useCallback((event: React.DragEvent<HTMLElement>) => {
+    if (event.dataTransfer.dropEffect === 'none') reportRefusal(lastDropRefusalRef.current);
+    lastDropRefusalRef.current = null;
+    setDraggedItem(null);
+    scheduleHoverExpand(null);
+    stopDragAutoScroll();
+    if (sharedDragRef?.current?.sourceTreeId === treeId) sharedDragRef.current = null;
+  }, [setDraggedItem, reportRefusal, scheduleHoverExpand, stopDragAutoScroll, sharedDragRef, treeId]);
+
+  // The pointer engine drags within this tree only; other trees and apps aren't involved
+  const pointerDragIdsRef = useRef<string[] | null>(null);
+  const pointerDrag = usePointerDrag({
+    containerRef,
+    isSortedRow: nodeId => isSortedBranch(treeStore.getNode(storeRef.current, nodeId)?.parentId ?? null),
+    onStart: nodeId => {
+      const record = treeStore.getNode(storeRef.current, nodeId);
+      pointerDragIdsRef.current = record ? pickUpNodes(nodeId) : null;
+      if (record && pointerDragIdsRef.current) setDraggedItem({ id: nodeId, parentId: record.parentId, ids: pointerDragIdsRef.current });
+      return pointerDragIdsRef.current !== null;
+    },
+    onMove: (targetNodeId, position, event) => {
+      const ids = pointerDragIdsRef.current ?? [];
+      scheduleHoverExpand(targetNodeId !== null && !ids.includes(targetNodeId) ? targetNodeId : null);
+      lastDropRefusalRef.current = checkDraggedDrop(ids, getDragMode(event), targetNodeId, position);
+      return lastDropRefusalRef.current === null;
+    },
+    onDrop: (targetNodeId, position, event) => {
+      if (pointerDragIdsRef.current) dropDraggedNodes(pointerDragIdsRef.current, getDragMode(event), targetNodeId, position);
+    },
+    onEnd: () => {
+      reportRefusal(lastDropRefusalRef.current); // Released over a refused target, or cancelled there
+      lastDropRefusalRef.current = null;
+      pointerDragIdsRef.current = null;
+      scheduleHoverExpand(null);
+      setDraggedItem(null);
+    },
+  });
+
+  // The hook's row and toggle props, with this view's drag source on the rows
+  const getRowProps = useCallback((node: ITreeNode, options: NodePropsOptions) => getNodeProps(node, {
+    ...options,
+    onDragStart: event => handleDragStart(node.id, event.dataTransfer),
+    onDragEnd: handleDragEnd,
+  }), [getNodeProps, handleDragStart, handleDragEnd]);
+
+  // During a search the toggle only opens and closes the filtered view, one node at a time
+  const getRowToggleProps = useCallback((node: ITreeNode) => getToggleProps(node, {
+    onClick: event => {
+      if (!searchMatches) return;
+      event.preventDefault();
+      setViewExpanded(node.id, !node.isExpanded);
+    },
+  }), [getToggleProps, searchMatches, setViewExpanded]);
+
+  // --- Tree Table ---
+
+  // Each click on a sortable header steps through ascending, descending and back to the tree's own sort
+  const handleColumnSort = useCallback((key: string) => {
+    setColumnSort(prevSort => {
+      if (prevSort?.key !== key) return { key, direction: 'ascending' };
+      return prevSort.direction === 'ascending' ? { key, direction: 'descending' } : null;
+    });
+  }, []);
+
+  const handleColumnResize = useCallback((key: string, width: number) => {
+    setColumnWidths(prevWidths => ({ ...prevWidths, [key]: width }));
+  }, []);
 
   // --- Render ---
 
+  const draftAtEnd = draft && !draft.beforeId ? draft : null; // A draft row that closes a child list
+
+  const renderNode = ({ node, level, posInSet, setSize }: VisibleNode, flat: boolean) => (
+    <TreeNode
+      key={sync.getNodeKey(node.id)}
+      node={node}
+      level={level}
+      flat={flat}
+      getNodeProps={getRowProps}
+      getToggleProps={getRowToggleProps}
+      getDropZoneProps={getDropZoneProps}
+      onReloadChildren={handleReloadChildren}
+      onLoadMore={loadMoreChildren}
+      autoLoadMore={autoLoadMore}
+      posInSet={posInSet}
+      setSize={setSize}
+      isSorted={isSortedBranch(node.parentId)}
+      focusedNodeId={tabStopId}
+      onFocusNode={setFocusedId}
+      editingNodeId={editingId}
+      onStartEditing={handleStartEditing}
+      onStopEditing={handleStopEditing}
+      onAddNode={handleAddNode}
+      onRemoveNode={handleRemoveNode}
+      onEditNodeName={handleEditNodeName}
+      getNameError={getNameError}
+      draftParentId={draftAtEnd?.parentId ?? null}
+      draftBeforeId={draft?.beforeId ?? null}
+      onOpenContextMenu={openContextMenu}
+      cutNodeIds={cutNodeIds}
+      renderDraft={renderDraft}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      onPointerDown={dragBackend === 'pointer' ? pointerDrag.handlePointerDown : undefined}
+      dropTarget={pointerDrag.dropTarget}
+      draggedNodeIds={draggedNodeIds}
+      selectedNodeIds={selectedIdSet}
+      onSelectNode={handleSelectNode}
+      renderLabel={renderLabel}
+      renderIcon={renderIcon}
+      renderActions={renderActions}
+      renderLoading={renderLoading}
+      columns={columns}
+      checkedStates={checkedStates}
+      onCheckNode={setNodeChecked}
+      searchMatches={searchMatches}
+      currentMatchId={currentMatchId}
+      revealedNodeId={revealedId}
+      getNodeKey={sync.getNodeKey}
+      pendingCounts={sync.pendingCounts}
+      syncErrors={sync.errors}
+      onDismissSyncError={sync.dismissError}
+    />
+  );
+
+  const targetRecord = targetNodeId ? treeStore.getNode(store, targetNodeId) : undefined;
+  const columnWidthList = columns?.map(column => columnWidths[column.key] ?? column.width ?? DEFAULT_COLUMN_WIDTH) ?? [];
+  // Cells read their widths from these, so resizing a column doesn't re-render every row
+  const columnWidthVars = Object.fromEntries(columnWidthList.map((width, index) => [`--tree-column-${index}-width`, `${width}px`]));
+  const breadcrumbPath = showBreadcrumb && focusedId ? treeStore.getPath(store, focusedId) ?? [] : [];
+
+  // Rows in the window, plus the tab stop so keyboard users can always Tab back into the tree
+  const renderedRowIndexes: number[] = [];
+  if (virtualized) {
+    for (let index = virtualRows.startIndex; index < virtualRows.endIndex; index++) {
+      renderedRowIndexes.push(index);
+    }
+    const tabStopIndex = visibleNodes.findIndex(({ node }) => node.id === tabStopId);
+    if (tabStopIndex !== -1 && (tabStopIndex < virtualRows.startIndex || tabStopIndex >= virtualRows.endIndex)) {
+      renderedRowIndexes.push(tabStopIndex);
+    }
+  }
+
+  // The row holding the "new node" input stays rendered, like the tab stop
+  closingParents.forEach((parents, index) => {
+    if (parents.some(({ node }) => node.id === draftAtEnd?.parentId) && !renderedRowIndexes.includes(index)) renderedRowIndexes.push(index);
+  });
+  const draftRowIndex = draft?.beforeId ? rowKeys.indexOf(draft.beforeId) : -1;
+  if (virtualized && draftRowIndex !== -1 && !renderedRowIndexes.includes(draftRowIndex)) renderedRowIndexes.push(draftRowIndex);
+
+  // Rows that end a parent's child list in virtualized mode
+  const renderTrailingRows = ({ node, level }: VisibleNode) => (
+    <React.Fragment key={node.id}>
+      {draftAtEnd?.parentId === node.id && renderDraft(level + 1)}
+      {node.childrenCursor && (
+        <LoadMoreRow
+          level={level + 1}
+          remainingCount={node.remainingChildCount}
+          isLoading={loadStates[node.id]?.status === 'loading-more'}
+          error={loadStates[node.id]?.status === 'load-more-error' ? loadStates[node.id].error : undefined}
+          autoLoad={autoLoadMore}
+          onLoadMore={() => loadMoreChildren(node.id)}
+          role={rowRole}
+        />
+      )}
+    </React.Fragment>
+  );
+
   return (
     <div
-      className="tree-view-container"
-      onDragOver={(e) => handleDragOver(e, null, 'child')} // Allow global drops, target null for root
-      onDrop={(e) => handleDrop(e, null, 'child')} // Handles drops onto the root container
+      className={`tree-view ${columns ? 'tree-view-grid' : ''} ${dragBackend === 'pointer' ? 'uses-pointer-drag' : ''} ${pointerDrag.isDragging ? 'is-pointer-dragging' : ''}`}
+      style={columnWidthVars as React.CSSProperties}
     >
-      {treeData.length === 0 && (
-          <div className="tree-view-empty-message">
-              No nodes. Drag and drop a node here or click 'Add Root Node' to start.
-          </div>
+      {showSearch && (
+        <TreeSearchBar
+          filter={filter}
+          onFilterChange={applyFilter}
+          isValid={isFilterValid}
+          isSearching={isServerSearching}
+          searchError={serverSearchError}
+          onRetrySearch={() => setServerSearchAttempt(attempt => attempt + 1)}
+          matchCount={matchIds.length}
+          currentMatchIndex={currentMatchIndex}
+          onNextMatch={() => stepMatch(1)}
+          onPreviousMatch={() => stepMatch(-1)}
+        />
+      )}
+      {showBreadcrumb && <TreeBreadcrumb path={breadcrumbPath} onSelect={navigateToNode} />}
+      {showImportExport && (
+        <TreeImportExport
+          targetNode={targetRecord ? { id: targetRecord.id, name: targetRecord.name } : null}
+          onImport={importNodes}
+          onExport={exportNodes}
+        />
+      )}
+      {showExpandControls && (
+        <TreeExpandControls
+          onExpandAll={() => expandBranch(null)}
+          onCollapseAll={() => collapseBranch(null)}
+          onExpandToDepth={expandToDepth}
+        />
+      )}
+      {expandProgress && (
+        <div className="tree-expand-progress" role="status">
+          <span>Loading branches {expandProgress.loaded.toLocaleString()} of {expandProgress.total.toLocaleString()}</span>
+          <progress value={expandProgress.loaded} max={expandProgress.total} />
+          <button onClick={cancelExpand} className="toolbar-button">Cancel</button>
+        </div>
       )}
-      {treeData.map(node => (
-        <TreeNode
-          key={node.id}
-          node={node}
-          level={0} // Root level
-          onToggleExpand={handleToggleExpand}
-          onAddNode={handleAddNode}
-          onRemoveNode={handleRemoveNode}
-          onEditNodeName={handleEditNodeName}
-          onDragStart={handleDragStart}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-          draggedItemId={draggedItem?.id || null}
+      <TreeLoadStateProvider loadStates={loadStates}>
+        <div
+          ref={containerRef}
+          className={`tree-view-container ${virtualized ? 'tree-view-virtual' : ''}`}
+          style={virtualized ? { height } : undefined}
+          role={columns ? 'treegrid' : 'tree'}
+          aria-label={ariaLabel}
+          aria-multiselectable="true"
+          onKeyDown={handleTreeKeyDown}
+          onDragOverCapture={e => updateDragAutoScroll(e.clientY)} // Rows stop the event from bubbling up
+          {...getDropZoneProps(null, { // Drops onto the container itself are root-level drops
+            canDrop: (e, position) => handleDragOver(e, null, position),
+            onDrop: (e, position) => handleDrop(e, null, position),
+          })}
+        >
+          {columns && (
+            <TreeColumnHeaders
+              columns={columns}
+              widths={columnWidthList}
+              treeColumnHeader={treeColumnHeader}
+              columnSort={sortColumn ? columnSort : null}
+              onSort={handleColumnSort}
+              onResize={handleColumnResize}
+            />
+          )}
+          {treeData.length === 0 && (
+              <div className="tree-view-empty-message">
+                  No nodes. Drag and drop a node here or click 'Add Root Node' to start.
+              </div>
+          )}
+          {treeData.length > 0 && displayTree.length === 0 && (
+              <div className="tree-view-empty-message">
+                  No nodes match your search.
+              </div>
+          )}
+          {virtualized ? (
+            <div className="tree-virtual-spacer" style={{ height: virtualRows.totalHeight }}>
+              {renderedRowIndexes.map(index => (
+                <div
+                  key={sync.getNodeKey(visibleNodes[index].node.id)}
+                  className="tree-virtual-row"
+                  data-row-key={visibleNodes[index].node.id}
+                  style={{ transform: `translateY(${virtualRows.getRowOffset(index)}px)` }}
+                >
+                  {renderNode(visibleNodes[index], true)}
+                  {closingParents.get(index)?.map(renderTrailingRows)}
+                </div>
+              ))}
+            </div>
+          ) : columns ? (
+            visibleNodes.map((visibleNode, index) => (
+              <React.Fragment key={sync.getNodeKey(visibleNode.node.id)}>
+                {renderNode(visibleNode, true)}
+                {closingParents.get(index)?.map(renderTrailingRows)}
+              </React.Fragment>
+            ))
+          ) : (
+            displayTree.map((node, index) => renderNode({ node, level: 0, posInSet: index + 1, setSize: displayTree.length }, false))
+          )}
+          {draftAtEnd?.parentId === null && renderDraft(0)}
+          {sync.errors.has(null) && (
+            <div className="tree-node-sync-error" role="alert">
+              <span className="sync-error-message">{sync.errors.get(null)}</span>
+              <button onClick={() => sync.dismissError(null)} className="dismiss-button">Dismiss</button>
+            </div>
+          )}
+          <button onClick={() => handleAddNode(null)} className="add-root-node-button">Add Root Node</button>
+        </div>
+      </TreeLoadStateProvider>
+      {contextMenu && contextMenuEntries.length > 0 && (
+        <TreeContextMenu
+          items={contextMenuEntries}
+          position={contextMenu}
+          aria-label={`Actions for "${treeStore.getNode(store, contextMenu.nodeId)?.name}"`}
+          onSelect={handleContextMenuSelect}
+          onClose={closeContextMenu}
         />
-      ))}
-      <button onClick={() => handleAddNode(null)} className="add-root-node-button">Add Root Node</button>
+      )}
+      {pointerDrag.isDragging && draggedItem && (
+        <div ref={pointerDrag.previewRef} className="tree-drag-preview" aria-hidden="true">
+          {treeStore.getNode(store, draggedItem.id)?.name}
+          {draggedNodeIds.size > 1 && <span className="drag-preview-count">{draggedNodeIds.size}</span>}
+        </div>
+      )}
+      {deletion && (
+        <div className="tree-toast" role="status">
+          <span>{deletion.message}</span>
+          <button onClick={handleUndoDeletion} className="toolbar-button">Undo</button>
+          <button onClick={() => setDeletion(null)} className="icon-button" title="Dismiss"><FaTimes /></button>
+        </div>
+      )}
     </div>
   );
-};
+});
+
+TreeView.displayName = 'TreeView';
 
-export default TreeView;
+// forwardRef drops the type parameter, so restore it for callers: <TreeView<MyData> data={...} />
+export default TreeView as <T = unknown>(props: TreeViewProps<T> & React.RefAttributes<TreeViewHandle<T>>) => React.ReactElement | null;
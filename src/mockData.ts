@@ -1,52 +1,101 @@
 // src/mockData.ts
-import { ITreeNode, TreeData } from './types';
+import { ChildrenPage, ITreeNode, LoadChildrenOptions, TreeData, TreeSyncCallbacks } from './types';
+
+// The payload of demo nodes: file details for the tree-table demo, and for large folders, how many children
+// are served a page at a time
+export interface MockNodeData {
+  pagedChildCount?: number;
+  size?: number; // Bytes
+  owner?: string;
+  modified?: string; // ISO date, so it survives being persisted as JSON
+}
+
+const MOCK_OWNERS = ['design', 'finance', 'ops', 'support'];
+
+// Helper to make up a node's file details
+const createFileData = (): MockNodeData => ({
+  size: Math.floor(Math.random() * 5000000),
+  owner: MOCK_OWNERS[Math.floor(Math.random() * MOCK_OWNERS.length)],
+  modified: new Date(Date.now() - Math.floor(Math.random() * 365 * 24 * 60 * 60 * 1000)).toISOString(),
+});
 
 let nextId = 100; // Starting ID for new nodes, for unique IDs
 
-export const generateId = () => `node-${nextId++}`;
+// Tells this page's ids apart from those of other pages, e.g. tabs editing one tree over a BroadcastChannel
+const PAGE_TAG = Math.random().toString(36).slice(2, 8);
+
+// Ids for nodes created while the page runs (added, pasted, imported): unique across pages too
+export const generateId = () => `node-${PAGE_TAG}-${nextId++}`;
+
+// Ids for the demo data, numbered in the same order on every page so that replicas showing it agree on them
+const generateDemoId = () => `node-${nextId++}`;
+
+// Moves the id counter past every generated-style id in a tree that was created elsewhere (e.g. restored from storage)
+export const reserveIds = (nodes: TreeData) => {
+  const pattern = new RegExp(`^node-(?:${PAGE_TAG}-)?(\\d+)$`);
+  nodes.forEach(node => {
+    const match = pattern.exec(node.id);
+    if (match) nextId = Math.max(nextId, Number(match[1]) + 1);
+    if (Array.isArray(node.children)) reserveIds(node.children);
+  });
+};
 
 // Initial raw tree data structure
 const rawInitialTreeData: TreeData = [
   {
-    id: generateId(),
+    id: generateDemoId(),
     name: "Root A (Lazy Children)",
     children: true, // Indicates lazy loading
     isExpanded: false,
     hasChildren: true,
     parentId: null,
+    data: createFileData(),
   },
   {
-    id: generateId(),
+    id: generateDemoId(),
     name: "Root B",
     children: [
       {
-        id: generateId(),
+        id: generateDemoId(),
         name: "Child B1 (Lazy Children)",
         children: true, // Lazy loading for B1's children
         isExpanded: false,
         hasChildren: true,
         parentId: null, // Will be set by setParentIds
+        data: createFileData(),
       },
       {
-        id: generateId(),
+        id: generateDemoId(),
         name: "Child B2",
         children: [],
         isExpanded: false,
         hasChildren: false,
         parentId: null,
+        data: createFileData(),
       },
     ],
     isExpanded: false,
     hasChildren: true,
     parentId: null,
+    data: createFileData(),
   },
   {
-    id: generateId(),
+    id: generateDemoId(),
     name: "Root C (No Children)",
     children: [],
     isExpanded: false,
     hasChildren: false,
     parentId: null,
+    data: createFileData(),
+  },
+  {
+    id: generateDemoId(),
+    name: "Root D (2,500 Children, Paged)",
+    children: true,
+    isExpanded: false,
+    hasChildren: true,
+    parentId: null,
+    data: { ...createFileData(), pagedChildCount: 2500 },
   },
 ];
 
@@ -65,10 +114,29 @@ export const createInitialTree = (): TreeData => {
   return setParentIds(rawInitialTreeData);
 };
 
+// Generates a fully loaded tree with childrenPerNode^depth nodes per root, for exercising virtualized mode
+export const createLargeTree = (rootCount: number, childrenPerNode: number, depth: number): TreeData => {
+  const createLevel = (count: number, remainingDepth: number, prefix: string): TreeData => {
+    return Array.from({ length: count }, (_, i) => {
+      const name = `${prefix}${i + 1}`;
+      const children = remainingDepth > 0 ? createLevel(childrenPerNode, remainingDepth - 1, `${name}.`) : [];
+      return {
+        id: generateDemoId(),
+        name: `Node ${name}`,
+        children,
+        isExpanded: remainingDepth > 0,
+        hasChildren: children.length > 0,
+        parentId: null,
+      };
+    });
+  };
+  return setParentIds(createLevel(rootCount, depth - 1, ''));
+};
+
 // Simulate an API call to fetch children
-export const simulateApiCall = (nodeId: string, currentLevel: number): Promise<ITreeNode[]> => {
-  return new Promise((resolve) => {
-    setTimeout(() => {
+export const simulateApiCall = (nodeId: string, currentLevel: number, signal?: AbortSignal): Promise<ITreeNode[]> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
       // Limit depth for simulation to prevent infinite lazy loading
       if (currentLevel > 2 && Math.random() < 0.7) { // Higher chance of no children deeper down
         resolve([]);
@@ -86,9 +154,65 @@ export const simulateApiCall = (nodeId: string, currentLevel: number): Promise<I
           isExpanded: false,
           hasChildren: hasGrandchildren,
           parentId: nodeId,
+          data: createFileData(),
         });
       }
       resolve(newChildren);
     }, Math.random() * 800 + 300); // Simulate network delay
+
+    // Cancel the pending "request" when the caller aborts (e.g. the node was collapsed)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Load aborted', 'AbortError'));
+    });
+  });
+};
+
+// Serves a large folder's children a page at a time; the cursor is the index of the first child of the next page
+export const simulatePagedApiCall = (nodeId: string, totalCount: number, { cursor, pageSize, signal }: LoadChildrenOptions): Promise<ChildrenPage> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const start = cursor ? Number(cursor) : 0;
+      const end = Math.min(start + pageSize, totalCount);
+      const children: ITreeNode[] = Array.from({ length: end - start }, (_, i) => ({
+        id: `${nodeId}-item-${start + i + 1}`, // Stable ids, like a real backend's
+        name: `Item ${start + i + 1}`,
+        children: [],
+        isExpanded: false,
+        hasChildren: false,
+        parentId: nodeId,
+        data: createFileData(),
+      }));
+      resolve({ children, nextCursor: end < totalCount ? String(end) : null, remainingCount: totalCount - end });
+    }, Math.random() * 400 + 200); // Simulate network delay
+
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Load aborted', 'AbortError'));
+    });
+  });
+};
+
+// Helper to wait like a network round trip, failing now and then
+const simulateSave = <R>(result: R, failureRate: number): Promise<R> => {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (Math.random() < failureRate) {
+        reject(new Error('The server rejected the change'));
+      } else {
+        resolve(result);
+      }
+    }, Math.random() * 1000 + 500);
   });
 };
+
+// A pretend backend for the sync callbacks; new nodes get server-style ids and about one call in five fails
+export const createMockBackend = (failureRate: number = 0.2): TreeSyncCallbacks => {
+  let nextServerId = 1;
+  return {
+    onAdd: () => simulateSave(`server-${nextServerId++}`, failureRate),
+    onRename: () => simulateSave(undefined, failureRate),
+    onRemove: () => simulateSave(undefined, failureRate),
+    onMove: () => simulateSave(undefined, failureRate),
+  };
+};
@@ -0,0 +1,12 @@
+// src/testUtils.ts
+import { ITreeNode, TreeData } from './types';
+
+// Fixtures shared by the tests. Nodes are named after their ids so that expectations can read either.
+
+// Helper to build a node; children default to none, `true` makes it lazy
+export const node = (id: string, children: ITreeNode[] | true = [], fields: Partial<ITreeNode> = {}): ITreeNode => ({ id, name: id, parentId: null, children, ...fields });
+
+// Helper to read a tree as nested names, e.g. [{ docs: ['guides'] }, 'notes'], for comparing shapes without ids
+export const toNames = (tree: TreeData): unknown[] => {
+  return tree.map(({ name, children }) => (Array.isArray(children) && children.length > 0 ? { [name]: toNames(children) } : name));
+};
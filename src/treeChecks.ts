@@ -0,0 +1,104 @@
+// src/treeChecks.ts
+import { CheckedState, CheckedStrategy } from './types';
+import * as treeStore from './treeStore';
+import { StoreNode, TreeStore } from './treeStore';
+
+// The checked set holds every checked node explicitly. It is normalized so that a node with linked children
+// is checked exactly when all of them are. Linked children are the checkable, enabled ones: a disabled node keeps
+// its own state and takes no part in its parent's. A checked lazy node (childIds === true) stands for all of its
+// unloaded children, and a checked partially loaded node (one with a childrenCursor) for its unloaded pages;
+// they are checked as they load.
+
+const isCheckable = (record: StoreNode | undefined): record is StoreNode => !!record && record.checkable !== false;
+
+// Helper to list the children whose state is tied to the node's own
+const getLinkedChildIds = (store: TreeStore, nodeId: string): string[] => {
+  return treeStore.getChildIds(store, nodeId).filter(childId => isCheckable(store.byId[childId]) && !store.byId[childId].disabled);
+};
+
+// Helper to collect every descendant that follows the node when it is toggled
+const collectLinkedIds = (store: TreeStore, nodeId: string): string[] => {
+  return getLinkedChildIds(store, nodeId).flatMap(childId => [childId, ...collectLinkedIds(store, childId)]);
+};
+
+// Helper to list loaded nodes with their descendants before them (children first, then parents)
+const collectBottomUp = (store: TreeStore, parentId: string | null): string[] => {
+  return treeStore.getChildIds(store, parentId).flatMap(childId => [...collectBottomUp(store, childId), childId]);
+};
+
+// Helper to re-derive the state of a parent from its children; returns whether it is now checked
+const isFullyChecked = (store: TreeStore, nodeId: string, checkedIds: ReadonlySet<string>): boolean | null => {
+  const childIds = getLinkedChildIds(store, nodeId);
+  if (childIds.length === 0) return null; // A leaf (or lazy node) keeps its own state
+  return childIds.every(childId => checkedIds.has(childId));
+};
+
+// Builds the normalized checked set from any list of ids, e.g. the leaf or top-most ids reported by onCheckedChange
+export const normalizeChecked = (store: TreeStore, nodeIds: Iterable<string>): Set<string> => {
+  const checkedIds = new Set<string>();
+  // Down: a checked node checks its subtree
+  Array.from(nodeIds).forEach(nodeId => {
+    if (!isCheckable(store.byId[nodeId])) return;
+    checkedIds.add(nodeId);
+    collectLinkedIds(store, nodeId).forEach(id => checkedIds.add(id));
+  });
+  // Up: a parent is checked exactly when all of its linked children are
+  collectBottomUp(store, null).forEach(nodeId => {
+    if (!isCheckable(store.byId[nodeId]) || store.byId[nodeId].disabled) return;
+    const isChecked = isFullyChecked(store, nodeId, checkedIds);
+    if (isChecked === true) checkedIds.add(nodeId);
+    if (isChecked === false) checkedIds.delete(nodeId);
+  });
+  return checkedIds;
+};
+
+// Checks or unchecks a node with its subtree, then updates its ancestors
+export const setChecked = (store: TreeStore, checkedIds: ReadonlySet<string>, nodeId: string, isChecked: boolean): Set<string> => {
+  const record = store.byId[nodeId];
+  if (!isCheckable(record) || record.disabled) return new Set(checkedIds);
+  const nextCheckedIds = new Set(checkedIds);
+  [nodeId, ...collectLinkedIds(store, nodeId)].forEach(id => {
+    if (isChecked) {
+      nextCheckedIds.add(id);
+    } else {
+      nextCheckedIds.delete(id);
+    }
+  });
+  (treeStore.getPath(store, nodeId) ?? []).slice(0, -1).reverse().forEach(ancestor => {
+    if (!isCheckable(ancestor) || ancestor.disabled) return;
+    if (isFullyChecked(store, ancestor.id, nextCheckedIds)) {
+      nextCheckedIds.add(ancestor.id);
+    } else {
+      nextCheckedIds.delete(ancestor.id);
+    }
+  });
+  return nextCheckedIds;
+};
+
+// The displayed state of every checkable node: parents with some (but not all) checked descendants are indeterminate
+export const getCheckedStates = (store: TreeStore, checkedIds: ReadonlySet<string>): Map<string, CheckedState> => {
+  const states = new Map<string, CheckedState>();
+  collectBottomUp(store, null).forEach(nodeId => {
+    if (!isCheckable(store.byId[nodeId])) return;
+    const childStates = getLinkedChildIds(store, nodeId).map(childId => states.get(childId));
+    if (childStates.length === 0 || checkedIds.has(nodeId)) {
+      states.set(nodeId, checkedIds.has(nodeId) ? 'checked' : 'unchecked');
+    } else {
+      states.set(nodeId, childStates.every(state => state === 'unchecked') ? 'unchecked' : 'indeterminate');
+    }
+  });
+  return states;
+};
+
+// The ids reported through onCheckedChange, in document order: checked leaves (lazy and partially loaded nodes
+// count as leaves, so the children they stand for are checked when they load), or the checked nodes whose parent isn't checked
+export const getReportedIds = (store: TreeStore, checkedIds: ReadonlySet<string>, strategy: CheckedStrategy): string[] => {
+  return Array.from(checkedIds)
+    .filter(nodeId => {
+      const record = store.byId[nodeId];
+      if (!record) return false;
+      if (strategy === 'leaves') return getLinkedChildIds(store, nodeId).length === 0 || record.childrenCursor !== undefined;
+      return record.parentId === null || !checkedIds.has(record.parentId);
+    })
+    .sort((a, b) => treeStore.compareDocumentOrder(store, a, b));
+};
@@ -0,0 +1,111 @@
+// src/treeFormats.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { ITreeNode, TreeData, TreeFormat } from './types';
+import { exportTree, importTree } from './treeFormats';
+import { setParentIds } from './mockData';
+import { node, toNames } from './testUtils';
+
+// docs
+//   guides
+//     setup, "quoted, name"
+//   api/v2
+// notes
+const createTree = (): TreeData => setParentIds([
+  node('docs', [
+    node('guides', [node('setup'), node('"quoted, name"')]),
+    node('api/v2'),
+  ]),
+  node('notes'),
+], null);
+
+const FORMATS: TreeFormat[] = ['json', 'text', 'markdown', 'csv', 'opml'];
+
+describe('round-trips', () => {
+  it.each(FORMATS)('imports an exported tree unchanged (%s)', format => {
+    const tree = createTree();
+    const { tree: imported, errors } = importTree(exportTree(tree, format), format);
+    expect(errors).toEqual([]);
+    expect(toNames(imported)).toEqual(toNames(tree));
+  });
+
+  it.each(FORMATS)('imports an exported subtree as roots (%s)', format => {
+    const guides = (createTree()[0].children as ITreeNode[])[0];
+    expect(guides.parentId).toBe('docs');
+    const { tree: imported, errors } = importTree(exportTree([guides], format), format);
+    expect(errors).toEqual([]);
+    expect(toNames(imported)).toEqual([{ guides: ['setup', '"quoted, name"'] }]);
+    expect(imported[0].parentId).toBeNull();
+  });
+
+  it('hands out fresh ids linked through parentId', () => {
+    const { tree } = importTree('id,parentId,name\na,,Root\nb,a,Child', 'csv');
+    const [root] = tree;
+    const [child] = root.children as ITreeNode[];
+    expect(root.id).not.toBe('a');
+    expect(child.parentId).toBe(root.id);
+    expect(root.hasChildren).toBe(true);
+    expect(child.hasChildren).toBe(false);
+  });
+
+  it('builds missing ancestors from CSV paths, with escaped slashes kept in names', () => {
+    const { tree, errors } = importTree('path\nRoot/a\\/b\nRoot/c', 'csv');
+    expect(errors).toEqual([]);
+    expect(toNames(tree)).toEqual([{ Root: ['a/b', 'c'] }]);
+  });
+});
+
+describe('parse errors', () => {
+  it('reports where JSON stops parsing', () => {
+    const { tree, errors } = importTree('[\n  { "name": "a" },\n  { "name": }\n]', 'json');
+    expect(tree).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(3);
+    expect(importTree('{ "name": }', 'json').errors[0].line).toBe(1);
+    expect(importTree('[\n  { "name": "a" },\n', 'json').errors[0].line).toBe(2);
+  });
+
+  it('reports JSON nodes with bad fields by their path', () => {
+    const { errors } = importTree('[{ "name": "a", "children": [{ "name": "" }] }]', 'json');
+    expect(errors).toEqual([{ message: expect.stringContaining('[0].children[0]') }]);
+  });
+
+  it('reports every bad CSV row by line', () => {
+    const input = 'id,parentId,name\na,,Root\na,,Again\nb,missing,Orphan\nc,,';
+    const { tree, errors } = importTree(input, 'csv');
+    expect(tree).toEqual([]);
+    expect(errors.map(error => error.line)).toEqual([3, 4, 5]);
+    expect(errors[0].message).toContain('line 2');
+    expect(errors[1].message).toContain('Unknown parentId "missing"');
+  });
+
+  it('reports an unclosed CSV quote on the line it opens', () => {
+    const { errors } = importTree('id,parentId,name\na,,"Root\nb,a,Child', 'csv');
+    expect(errors).toEqual([{ line: 2, message: 'Quoted field is never closed' }]);
+  });
+
+  it('reports CSV parentId cycles', () => {
+    const { errors } = importTree('id,parentId,name\na,b,A\nb,a,B', 'csv');
+    expect(errors.map(error => error.line)).toEqual([2, 3]);
+    expect(errors[0].message).toBe('parentId forms a cycle');
+  });
+
+  it('reports mismatched OPML tags with both lines', () => {
+    const input = '<opml>\n<body>\n<outline text="a">\n</body>\n</opml>';
+    const { errors } = importTree(input, 'opml');
+    expect(errors).toEqual([{ line: 4, message: 'Expected </outline> (opened on line 3), found </body>' }]);
+  });
+
+  it('reports OPML outlines without a name and unclosed tags', () => {
+    const input = '<opml>\n<body>\n<outline title=""/>\n</body>';
+    const { errors } = importTree(input, 'opml');
+    expect(errors).toEqual([
+      { line: 1, message: '<opml> is never closed' },
+      { line: 3, message: '<outline> needs a text attribute' },
+    ]);
+  });
+
+  it('reports outline lines that do not line up', () => {
+    const { errors } = importTree('a\n    b\n  c', 'text');
+    expect(errors).toEqual([{ line: 3, message: 'Indentation does not line up with any previous line' }]);
+  });
+});
@@ -0,0 +1,489 @@
+// src/treeFormats.ts
+import { ExternalDrop, ITreeNode, ImportError, ImportResult, SortMode, TreeData, TreeFormat } from './types';
+import { generateId, setParentIds } from './mockData';
+import * as treeStore from './treeStore';
+import { withManualOrder } from './treeSort';
+
+// Every importer builds nodes with fresh ids and fills in parentId links at the end, so the result can be
+// inserted anywhere. Ids found in the input (JSON ids, the CSV id column) only serve to link rows together.
+
+const INDENT = '  ';
+const TAB_WIDTH = 4;
+
+// Helper to create a fresh, fully loaded node; parentId is filled in by setParentIds once the tree is built
+const createNode = (name: string, fields: Partial<ITreeNode> = {}): ITreeNode => ({
+  isExpanded: false,
+  ...fields,
+  id: generateId(),
+  name,
+  children: fields.children ?? [],
+  parentId: null,
+});
+
+// Helper to set hasChildren from the children each node ended up with (lazy nodes keep theirs)
+const finishTree = (nodes: TreeData): TreeData => {
+  return nodes.map(node => {
+    if (!Array.isArray(node.children)) return { ...node, hasChildren: true };
+    return { ...node, children: finishTree(node.children), hasChildren: node.children.length > 0 };
+  });
+};
+
+const toResult = (tree: TreeData, errors: ImportError[]): ImportResult => {
+  if (errors.length === 0) return { tree: setParentIds(finishTree(tree), null), errors };
+  return { tree: [], errors: [...errors].sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity)) };
+};
+
+// Helper for the line (1-based) containing a character offset
+const getLineAt = (input: string, offset: number) => input.slice(0, offset).split('\n').length;
+
+// Helper to flatten a tree depth-first with each node's level
+const walkTree = (tree: TreeData, level: number = 0): { node: ITreeNode; level: number }[] => {
+  return tree.flatMap(node => [{ node, level }, ...(Array.isArray(node.children) ? walkTree(node.children, level + 1) : [])]);
+};
+
+// Names are single-line in every line-based format
+const toSingleLine = (name: string) => name.replace(/\s*[\r\n]+\s*/g, ' ');
+
+// --- Nested JSON ---
+
+const SORT_MODES: SortMode[] = ['none', 'alpha', 'natural'];
+
+// Helper to validate one parsed JSON node and its children; `path` locates it in messages, e.g. [0].children[2]
+const readJsonNode = (value: unknown, path: string, errors: ImportError[]): ITreeNode | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push({ message: `${path}: expected a node object` });
+    return null;
+  }
+  const fields = value as Record<string, unknown>;
+  if (typeof fields.name !== 'string' || fields.name.trim() === '') {
+    errors.push({ message: `${path}: "name" must be a non-empty string` });
+    return null;
+  }
+  const { children } = fields;
+  if (children !== undefined && children !== true && !Array.isArray(children)) {
+    errors.push({ message: `${path}: "children" must be an array or true` });
+    return null;
+  }
+  const optionalFlag = (key: string) => (typeof fields[key] === 'boolean' ? { [key]: fields[key] } : {});
+  return createNode(fields.name, {
+    ...optionalFlag('isExpanded'),
+    ...optionalFlag('disabled'),
+    ...optionalFlag('checkable'),
+    ...(typeof fields.type === 'string' ? { type: fields.type } : {}),
+    ...(SORT_MODES.includes(fields.sort as SortMode) ? { sort: fields.sort as SortMode } : {}),
+    ...(typeof fields.order === 'number' ? { order: fields.order } : {}),
+    ...('data' in fields ? { data: fields.data } : {}), // The user payload is kept as is
+    children: children === true ? true : Array.isArray(children) ? treeStore.arrangeByOrder(children.flatMap((child: unknown, index: number) => {
+      const node = readJsonNode(child, `${path}.children[${index}]`, errors);
+      return node ? [node] : [];
+    })) : [],
+  });
+};
+
+// Helper to locate a JSON.parse error. Engines report an offset ("at position 42"), a line ("line 3 column 5"),
+// the end of the input, or (V8, for unexpected tokens) only an excerpt with up to 10 characters either side of it.
+const getJsonErrorLine = (input: string, message: string): number | undefined => {
+  const position = /position (\d+)/.exec(message);
+  if (position) return getLineAt(input, Number(position[1]));
+  const line = /line (\d+)/.exec(message);
+  if (line) return Number(line[1]);
+  if (/end of (JSON )?(input|data)/i.test(message)) return getLineAt(input, input.trimEnd().length);
+  const excerpt = /^Unexpected token '([\s\S]*?)', (\.\.\.)?"([\s\S]*)"(?:\.\.\.)? is not valid JSON$/.exec(message);
+  if (!excerpt) return undefined;
+  const [, token, isTruncated, context] = excerpt;
+  const start = input.indexOf(context);
+  if (start < 0) return undefined;
+  return getLineAt(input, start + (isTruncated ? 10 : context.indexOf(token)));
+};
+
+const importJson = (input: string): ImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { tree: [], errors: [{ line: getJsonErrorLine(input, message), message }] };
+  }
+  const errors: ImportError[] = [];
+  const nodes = (Array.isArray(parsed) ? parsed : [parsed]).flatMap((value, index) => {
+    const node = readJsonNode(value, `[${index}]`, errors);
+    return node ? [node] : [];
+  });
+  return toResult(treeStore.arrangeByOrder(nodes), errors);
+};
+
+// Every node carries its `order`, so the manual order survives a backend that doesn't keep arrays in order
+const exportJson = (tree: TreeData): string => JSON.stringify(withManualOrder(tree), null, 2);
+
+// --- Indented text and Markdown outlines ---
+
+interface OutlineLine {
+  line: number;
+  indent: number; // Width of the leading whitespace, tabs expanded
+  name: string;
+}
+
+// Helper to measure leading whitespace, expanding tabs to the next tab stop
+const measureIndent = (whitespace: string) => {
+  return Array.from(whitespace).reduce((width, character) => (character === '\t' ? width + TAB_WIDTH - (width % TAB_WIDTH) : width + 1), 0);
+};
+
+// Builds a tree from outline lines: a line indented deeper than the one before it is its child, and
+// every child of a node must share one indentation
+const buildOutline = (lines: OutlineLine[], errors: ImportError[]): TreeData => {
+  const tree: TreeData = [];
+  const stack: { indent: number; children: ITreeNode[]; childIndent?: number }[] = [{ indent: -1, children: tree }];
+  lines.forEach(({ line, indent, name }) => {
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent.childIndent === undefined) {
+      parent.childIndent = indent;
+    } else if (parent.childIndent !== indent) {
+      errors.push({ line, message: 'Indentation does not line up with any previous line' });
+      return;
+    }
+    const node = createNode(name);
+    parent.children.push(node);
+    stack.push({ indent, children: node.children as ITreeNode[] });
+  });
+  return tree;
+};
+
+const importText = (input: string): ImportResult => {
+  const lines = input.split(/\r?\n/).flatMap((text, index) => {
+    if (text.trim() === '') return [];
+    const [whitespace] = /^\s*/.exec(text) ?? [''];
+    return [{ line: index + 1, indent: measureIndent(whitespace), name: text.trim() }];
+  });
+  const errors: ImportError[] = [];
+  const tree = buildOutline(lines, errors);
+  return toResult(tree, errors);
+};
+
+const exportText = (tree: TreeData): string => {
+  return walkTree(tree).map(({ node, level }) => INDENT.repeat(level) + toSingleLine(node.name)).join('\n');
+};
+
+const MARKDOWN_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+const importMarkdown = (input: string): ImportResult => {
+  const errors: ImportError[] = [];
+  const lines = input.split(/\r?\n/).flatMap((text, index) => {
+    // Blank lines and headings (e.g. a title above the list) carry no nodes
+    if (text.trim() === '' || /^\s*#/.test(text)) return [];
+    const match = MARKDOWN_ITEM.exec(text);
+    if (!match || match[2].trim() === '') {
+      errors.push({ line: index + 1, message: 'Expected a list item such as "- Name"' });
+      return [];
+    }
+    return [{ line: index + 1, indent: measureIndent(match[1]), name: match[2].trim() }];
+  });
+  const tree = buildOutline(lines, errors);
+  return toResult(tree, errors);
+};
+
+const exportMarkdown = (tree: TreeData): string => {
+  return walkTree(tree).map(({ node, level }) => `${INDENT.repeat(level)}- ${toSingleLine(node.name)}`).join('\n');
+};
+
+// --- CSV ---
+
+interface CsvRow {
+  line: number; // Line the row starts on
+  fields: string[];
+}
+
+// Helper to split CSV into rows of fields; quoted fields may contain commas, newlines and doubled quotes
+const parseCsv = (input: string, errors: ImportError[]): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let line = 1;
+  let rowLine = 1;
+  let quoteLine: number | null = null; // Set while inside a quoted field
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) rows.push({ line: rowLine, fields });
+    fields = [];
+    field = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const character = input[i];
+    if (quoteLine !== null) {
+      if (character === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (character === '"') {
+        quoteLine = null;
+      } else {
+        if (character === '\n') line++;
+        field += character;
+      }
+    } else if (character === '"' && field.trim() === '') {
+      field = '';
+      quoteLine = line;
+    } else if (character === ',') {
+      fields.push(field);
+      field = '';
+    } else if (character === '\n') {
+      line++;
+      endRow();
+    } else if (character !== '\r') {
+      field += character;
+    }
+  }
+  if (quoteLine !== null) {
+    errors.push({ line: quoteLine, message: 'Quoted field is never closed' });
+    return [];
+  }
+  endRow();
+  return rows;
+};
+
+// Helper to split a path on unescaped slashes; "\/" is a literal slash inside a name. Scanned by hand, since
+// regex lookbehind doesn't parse in older Safari.
+const splitPath = (path: string): string[] => {
+  const segments = [''];
+  for (let i = 0; i < path.length; i++) {
+    if (path[i] === '\\' && path[i + 1] === '/') {
+      segments[segments.length - 1] += '/';
+      i++;
+    } else if (path[i] === '/') {
+      segments.push('');
+    } else {
+      segments[segments.length - 1] += path[i];
+    }
+  }
+  return segments.map(segment => segment.trim());
+};
+
+const quoteCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Rows with an id column are linked through parentId (empty for roots), in row order
+const importCsvById = (rows: CsvRow[], columns: Record<string, number>, errors: ImportError[]): TreeData => {
+  const entries = new Map<string, { row: CsvRow; node: ITreeNode; parentKey: string }>();
+  rows.forEach(row => {
+    const key = (row.fields[columns.id] ?? '').trim();
+    const name = (row.fields[columns.name] ?? '').trim();
+    if (!key) {
+      errors.push({ line: row.line, message: 'Missing id' });
+    } else if (!name) {
+      errors.push({ line: row.line, message: 'Missing name' });
+    } else if (entries.has(key)) {
+      errors.push({ line: row.line, message: `Duplicate id "${key}" (first used on line ${entries.get(key)?.row.line})` });
+    } else {
+      entries.set(key, { row, node: createNode(name), parentKey: columns.parentId === undefined ? '' : (row.fields[columns.parentId] ?? '').trim() });
+    }
+  });
+
+  const tree: TreeData = [];
+  entries.forEach(({ row, node, parentKey }) => {
+    if (!parentKey) {
+      tree.push(node);
+      return;
+    }
+    const parent = entries.get(parentKey);
+    if (!parent) {
+      errors.push({ line: row.line, message: `Unknown parentId "${parentKey}"` });
+      return;
+    }
+    (parent.node.children as ITreeNode[]).push(node);
+  });
+
+  // Rows whose parentId chain loops back on itself never reach a root
+  const reachable = new Set(walkTree(tree).map(({ node }) => node));
+  entries.forEach(({ row, node }, key) => {
+    if (reachable.has(node)) return;
+    const visited = new Set<string>();
+    let currentKey = key;
+    while (entries.has(currentKey) && !visited.has(currentKey)) {
+      visited.add(currentKey);
+      currentKey = entries.get(currentKey)?.parentKey ?? '';
+    }
+    if (currentKey === key) errors.push({ line: row.line, message: 'parentId forms a cycle' });
+  });
+  return tree;
+};
+
+// Rows with a path column name every ancestor, e.g. "Root/Folder/File"; missing ancestors are created
+const importCsvByPath = (rows: CsvRow[], pathColumn: number, errors: ImportError[]): TreeData => {
+  const tree: TreeData = [];
+  rows.forEach(row => {
+    const segments = splitPath(row.fields[pathColumn] ?? '');
+    if (segments.some(segment => segment === '')) {
+      errors.push({ line: row.line, message: 'Path has an empty segment' });
+      return;
+    }
+    segments.reduce((siblings, name) => {
+      let node = siblings.find(sibling => sibling.name === name);
+      if (!node) {
+        node = createNode(name);
+        siblings.push(node);
+      }
+      return node.children as ITreeNode[];
+    }, tree);
+  });
+  return tree;
+};
+
+const importCsv = (input: string): ImportResult => {
+  const errors: ImportError[] = [];
+  const [header, ...rows] = parseCsv(input, errors);
+  if (!header) return { tree: [], errors: errors.length > 0 ? errors : [{ line: 1, message: 'Missing header row' }] };
+
+  const columns: Record<string, number> = {};
+  header.fields.forEach((name, index) => {
+    columns[name.trim()] = index;
+  });
+  let tree: TreeData = [];
+  if (columns.id !== undefined && columns.name !== undefined) {
+    tree = importCsvById(rows, columns, errors);
+  } else if (columns.path !== undefined) {
+    tree = importCsvByPath(rows, columns.path, errors);
+  } else {
+    errors.push({ line: header.line, message: 'Header must have "id,parentId,name" or "path" columns' });
+  }
+  return toResult(tree, errors);
+};
+
+const exportCsv = (tree: TreeData): string => {
+  // The top nodes of an exported subtree are roots of the file: their parents aren't in it
+  const rows = walkTree(tree).map(({ node, level }) => [node.id, level === 0 ? '' : node.parentId ?? '', node.name].map(quoteCsvField).join(','));
+  return ['id,parentId,name', ...rows].join('\n');
+};
+
+// --- OPML ---
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(Number(code.slice(1)));
+    return XML_ENTITIES[code] ?? entity;
+  });
+};
+
+const encodeXml = (text: string) => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+// Tokens of interest: comments, processing instructions and declarations are skipped, tags are checked for nesting.
+// Only <outline> elements inside <body> become nodes; their name is the text attribute (or title).
+const importOpml = (input: string): ImportResult => {
+  const errors: ImportError[] = [];
+  const tree: TreeData = [];
+  const openTags: { name: string; line: number; children?: ITreeNode[] }[] = [];
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([\w:.-]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(input)) !== null) {
+    const [, closing, tagName, attributeText, selfClosing] = match;
+    if (!tagName) continue;
+    const line = getLineAt(input, match.index);
+
+    if (closing) {
+      const openTag = openTags.pop();
+      if (!openTag || openTag.name !== tagName) {
+        errors.push({ line, message: openTag ? `Expected </${openTag.name}> (opened on line ${openTag.line}), found </${tagName}>` : `Unexpected </${tagName}>` });
+        return { tree: [], errors };
+      }
+      continue;
+    }
+
+    let children: ITreeNode[] | undefined;
+    const parent = openTags[openTags.length - 1];
+    if (tagName === 'body') {
+      children = tree;
+    } else if (tagName === 'outline' && parent?.children) {
+      const attributes: Record<string, string> = {};
+      for (const [, key, , doubleQuoted, singleQuoted] of Array.from(attributeText.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g))) {
+        attributes[key] = decodeXml(doubleQuoted ?? singleQuoted ?? '');
+      }
+      const name = (attributes.text ?? attributes.title ?? '').trim();
+      if (name) {
+        const node = createNode(name);
+        parent.children.push(node);
+        children = node.children as ITreeNode[];
+      } else {
+        errors.push({ line, message: '<outline> needs a text attribute' });
+      }
+    }
+    if (!selfClosing) openTags.push({ name: tagName, line, children });
+  }
+
+  if (openTags.length > 0) {
+    const openTag = openTags[openTags.length - 1];
+    errors.push({ line: openTag.line, message: `<${openTag.name}> is never closed` });
+  }
+  return toResult(tree, errors);
+};
+
+const exportOpml = (tree: TreeData): string => {
+  const renderOutline = (node: ITreeNode, depth: number): string => {
+    const indent = INDENT.repeat(depth);
+    const children = Array.isArray(node.children) ? node.children : [];
+    const open = `${indent}<outline text="${encodeXml(toSingleLine(node.name))}"`;
+    if (children.length === 0) return `${open}/>`;
+    return [`${open}>`, ...children.map(child => renderOutline(child, depth + 1)), `${indent}</outline>`].join('\n');
+  };
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `${INDENT}<head>`,
+    `${INDENT}${INDENT}<title>Tree</title>`,
+    `${INDENT}</head>`,
+    `${INDENT}<body>`,
+    ...tree.map(node => renderOutline(node, 2)),
+    `${INDENT}</body>`,
+    '</opml>',
+  ].join('\n');
+};
+
+// --- Public API ---
+
+const importers: Record<TreeFormat, (input: string) => ImportResult> = {
+  json: importJson,
+  text: importText,
+  markdown: importMarkdown,
+  csv: importCsv,
+  opml: importOpml,
+};
+
+const exporters: Record<TreeFormat, (tree: TreeData) => string> = {
+  json: exportJson,
+  text: exportText,
+  markdown: exportMarkdown,
+  csv: exportCsv,
+  opml: exportOpml,
+};
+
+// Parses input into a tree with fresh ids. On any error the tree is empty and errors lists every problem found.
+export const importTree = (input: string, format: TreeFormat): ImportResult => importers[format](input);
+
+// Serializes the loaded part of a tree; lazy nodes are written without children (JSON keeps `children: true`)
+export const exportTree = (tree: TreeData, format: TreeFormat): string => exporters[format](tree);
+
+// A ready-made onExternalDrop: one node per dropped file, or else the dropped text read as an indented outline
+export const nodesFromExternalDrop = (drop: ExternalDrop): TreeData => {
+  if (drop.files.length > 0) return toResult(drop.files.map(file => createNode(file.name, { type: 'file' })), []).tree;
+  return importText(drop.text).tree;
+};
+
+// File extensions for download names and for guessing the format of an opened file
+export const FORMAT_EXTENSIONS: Record<TreeFormat, string> = {
+  json: 'json',
+  text: 'txt',
+  markdown: 'md',
+  csv: 'csv',
+  opml: 'opml',
+};
+
+export const getFormatForFileName = (fileName: string): TreeFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const format = (Object.keys(FORMAT_EXTENSIONS) as TreeFormat[]).find(key => FORMAT_EXTENSIONS[key] === extension);
+  return format ?? (extension === 'xml' ? 'opml' : null);
+};
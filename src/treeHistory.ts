@@ -0,0 +1,295 @@
+// src/treeHistory.ts
+import { ITreeNode, NodePosition, TreeChange } from './types';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+
+// An undoable mutation. Each command carries enough state to build its own inverse. Adding or moving a node
+// into a collapsed parent opens it (expandsParent); the inverse closes it again (collapsesParent), so undo
+// leaves the parent as it was rather than opening the one a node goes back into.
+export type TreeCommand =
+  | { type: 'add'; node: ITreeNode; position: NodePosition; expandsParent?: boolean }
+  | { type: 'remove'; node: ITreeNode; position: NodePosition; collapsesParent?: boolean } // node is a snapshot of the whole subtree
+  | { type: 'rename'; nodeId: string; from: string; to: string }
+  | { type: 'move'; nodeId: string; from: NodePosition; to: NodePosition; expandsParent?: boolean; collapsesParent?: boolean } // collapsesParent closes from.parentId
+  | { type: 'batch'; commands: TreeCommand[] }; // Applied in order, undone as a single step
+
+interface HistoryEntry {
+  command: TreeCommand;
+  timestamp: number;
+}
+
+export interface TreeHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[]; // Undone commands, most recently undone last
+}
+
+const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1000; // Consecutive edits to the same node within this window become one undo step
+
+export const emptyHistory: TreeHistory = { past: [], future: [] };
+
+const isSamePosition = (a: NodePosition, b: NodePosition) => a.parentId === b.parentId && a.index === b.index;
+
+// Helper to tell whether a new child of parentId would start out hidden
+const isCollapsed = (store: TreeStore, parentId: string | null) => parentId !== null && !treeStore.getNode(store, parentId)?.isExpanded;
+
+// --- Building commands from the current store ---
+
+// Adds at index among the parent's children, or at the end
+export const createAddCommand = (store: TreeStore, parentId: string | null, node: ITreeNode, index?: number): TreeCommand => {
+  const position = { parentId, index: index ?? treeStore.getChildIds(store, parentId).length };
+  return { type: 'add', node: { ...node, parentId }, position, ...(isCollapsed(store, parentId) ? { expandsParent: true } : {}) };
+};
+
+export const createRemoveCommand = (store: TreeStore, nodeId: string): TreeCommand | null => {
+  const position = treeStore.getPosition(store, nodeId);
+  if (!position) return null;
+  // Snapshot the subtree so undo restores loaded children and expansion state too
+  return { type: 'remove', node: treeStore.getTreeNode(store, nodeId), position };
+};
+
+export const createRenameCommand = (store: TreeStore, nodeId: string, name: string): TreeCommand | null => {
+  const node = treeStore.getNode(store, nodeId);
+  if (!node || node.name === name) return null;
+  return { type: 'rename', nodeId, from: node.name, to: name };
+};
+
+export const createMoveCommand = (store: TreeStore, nodeId: string, to: NodePosition | null): TreeCommand | null => {
+  const from = treeStore.getPosition(store, nodeId);
+  if (!from || !to || isSamePosition(from, to)) return null;
+  return { type: 'move', nodeId, from, to, ...(isCollapsed(store, to.parentId) ? { expandsParent: true } : {}) };
+};
+
+// Builds a batch by creating each command against the store as it will be after the previous ones.
+// Factories may return null to skip an item; a batch of one is returned as that command alone.
+export const createBatchCommand = (store: TreeStore, factories: ((currentStore: TreeStore) => TreeCommand | null)[]): TreeCommand | null => {
+  const commands: TreeCommand[] = [];
+  let currentStore = store;
+  factories.forEach(createCommand => {
+    const command = createCommand(currentStore);
+    if (command) {
+      commands.push(command);
+      currentStore = applyCommand(currentStore, command);
+    }
+  });
+  if (commands.length <= 1) return commands[0] ?? null;
+  return { type: 'batch', commands };
+};
+
+// --- Applying and inverting ---
+
+export const invertCommand = (command: TreeCommand): TreeCommand => {
+  switch (command.type) {
+    case 'add': {
+      const { expandsParent, ...rest } = command;
+      return { ...rest, type: 'remove', ...(expandsParent ? { collapsesParent: true } : {}) };
+    }
+    case 'remove': {
+      const { collapsesParent, ...rest } = command;
+      return { ...rest, type: 'add', ...(collapsesParent ? { expandsParent: true } : {}) };
+    }
+    case 'rename':
+      return { ...command, from: command.to, to: command.from };
+    case 'move': {
+      const { expandsParent, collapsesParent, ...rest } = command;
+      return { ...rest, from: command.to, to: command.from, ...(collapsesParent ? { expandsParent: true } : {}), ...(expandsParent ? { collapsesParent: true } : {}) };
+    }
+    case 'batch':
+      return { type: 'batch', commands: command.commands.map(invertCommand).reverse() };
+  }
+};
+
+// Helper to open or close a parent as part of a command; the root has nothing to toggle
+const setParentExpanded = (store: TreeStore, parentId: string | null, isExpanded: boolean): TreeStore => {
+  if (parentId === null) return store;
+  return treeStore.updateNode(store, parentId, parentNode => ({ ...parentNode, isExpanded }));
+};
+
+export const applyCommand = (store: TreeStore, command: TreeCommand): TreeStore => {
+  switch (command.type) {
+    case 'add': {
+      const { parentId, index } = command.position;
+      const storeWithNode = treeStore.insertNodes(store, parentId, [command.node], index);
+      return command.expandsParent ? setParentExpanded(storeWithNode, parentId, true) : storeWithNode; // Show the new child
+    }
+    case 'remove': {
+      const storeWithoutNode = treeStore.removeNode(store, command.node.id);
+      return command.collapsesParent ? setParentExpanded(storeWithoutNode, command.position.parentId, false) : storeWithoutNode;
+    }
+    case 'rename':
+      return treeStore.updateNode(store, command.nodeId, node => ({ ...node, name: command.to }));
+    case 'move': {
+      const { parentId, index } = command.to;
+      let movedStore = treeStore.moveNodeTo(store, command.nodeId, parentId, index);
+      if (command.collapsesParent) movedStore = setParentExpanded(movedStore, command.from.parentId, false);
+      return command.expandsParent ? setParentExpanded(movedStore, parentId, true) : movedStore; // Keep the moved node visible
+    }
+    case 'batch':
+      return command.commands.reduce(applyCommand, store);
+  }
+};
+
+// The onChange description of a command
+export const toTreeChange = (command: TreeCommand): TreeChange => {
+  switch (command.type) {
+    case 'add':
+      return { type: 'add', node: command.node, ...command.position };
+    case 'remove':
+      return { type: 'remove', nodeId: command.node.id };
+    case 'rename':
+      return { type: 'rename', nodeId: command.nodeId, name: command.to };
+    case 'move':
+      return { type: 'move', nodeId: command.nodeId, ...command.to };
+    case 'batch':
+      return { type: 'batch', changes: command.commands.map(toTreeChange) };
+  }
+};
+
+export const getCommandNodeId = (command: TreeCommand): string | null => {
+  switch (command.type) {
+    case 'add':
+    case 'remove':
+      return command.node.id;
+    case 'batch':
+      return command.commands.length > 0 ? getCommandNodeId(command.commands[0]) : null;
+    default:
+      return command.nodeId;
+  }
+};
+
+// --- Id changes and rollbacks ---
+
+// Lists every node id a command refers to
+export const getReferencedIds = (command: TreeCommand): string[] => {
+  const collectSnapshotIds = (node: ITreeNode): string[] => [node.id, ...(Array.isArray(node.children) ? node.children.flatMap(collectSnapshotIds) : [])];
+  const positionIds = (...positions: NodePosition[]) => positions.flatMap(position => (position.parentId === null ? [] : [position.parentId]));
+  switch (command.type) {
+    case 'add':
+    case 'remove':
+      return [...collectSnapshotIds(command.node), ...positionIds(command.position)];
+    case 'rename':
+      return [command.nodeId];
+    case 'move':
+      return [command.nodeId, ...positionIds(command.from, command.to)];
+    case 'batch':
+      return command.commands.flatMap(getReferencedIds);
+  }
+};
+
+// Helper to rename the ids inside a node snapshot and its loaded descendants
+const mapSnapshotIds = (node: ITreeNode, mapId: (id: string) => string): ITreeNode => ({
+  ...node,
+  id: mapId(node.id),
+  parentId: node.parentId === null ? null : mapId(node.parentId),
+  ...(Array.isArray(node.children) ? { children: node.children.map(child => mapSnapshotIds(child, mapId)) } : {}),
+});
+
+const mapPositionIds = (position: NodePosition, mapId: (id: string) => string): NodePosition => ({
+  ...position,
+  parentId: position.parentId === null ? null : mapId(position.parentId),
+});
+
+// Rewrites the node ids in a command; a command that refers to none of the changed ids is returned as is
+export const mapCommandIds = (command: TreeCommand, mapId: (id: string) => string): TreeCommand => {
+  if (getReferencedIds(command).every(id => mapId(id) === id)) return command;
+  switch (command.type) {
+    case 'add':
+    case 'remove':
+      return { ...command, node: mapSnapshotIds(command.node, mapId), position: mapPositionIds(command.position, mapId) };
+    case 'rename':
+      return { ...command, nodeId: mapId(command.nodeId) };
+    case 'move':
+      return { ...command, nodeId: mapId(command.nodeId), from: mapPositionIds(command.from, mapId), to: mapPositionIds(command.to, mapId) };
+    case 'batch':
+      return { ...command, commands: command.commands.map(child => mapCommandIds(child, mapId)) };
+  }
+};
+
+// Splits a command into the single-node commands it is made of, in the order they were applied
+export const flattenCommand = (command: TreeCommand): TreeCommand[] => {
+  return command.type === 'batch' ? command.commands.flatMap(flattenCommand) : [command];
+};
+
+// --- History stacks ---
+
+// Merges two consecutive commands on the same node: undefined if they can't merge, null if they cancel out
+const coalesceCommands = (previous: TreeCommand, next: TreeCommand): TreeCommand | null | undefined => {
+  if (previous.type === 'rename' && next.type === 'rename' && previous.nodeId === next.nodeId) {
+    return previous.from === next.to ? null : { ...next, from: previous.from };
+  }
+  if (previous.type === 'move' && next.type === 'move' && previous.nodeId === next.nodeId) {
+    return isSamePosition(previous.from, next.to) ? null : { ...next, from: previous.from };
+  }
+  return undefined;
+};
+
+export const recordCommand = (history: TreeHistory, command: TreeCommand, timestamp: number): TreeHistory => {
+  const lastEntry = history.past[history.past.length - 1];
+  if (lastEntry && timestamp - lastEntry.timestamp < COALESCE_WINDOW_MS) {
+    const merged = coalesceCommands(lastEntry.command, command);
+    if (merged !== undefined) {
+      const past = history.past.slice(0, -1);
+      return { past: merged ? [...past, { command: merged, timestamp }] : past, future: [] };
+    }
+  }
+  return { past: [...history.past, { command, timestamp }].slice(-HISTORY_LIMIT), future: [] };
+};
+
+// Whether a command is still the next one undo would revert
+export const isLatestCommand = (history: TreeHistory, command: TreeCommand): boolean => {
+  return history.past[history.past.length - 1]?.command === command;
+};
+
+// Returns the command to apply (the inverse of the last one) and the updated history, or null if there is nothing to undo
+export const undo = (history: TreeHistory): { history: TreeHistory; command: TreeCommand } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+    command: invertCommand(entry.command),
+  };
+};
+
+export const redo = (history: TreeHistory): { history: TreeHistory; command: TreeCommand } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+    command: entry.command,
+  };
+};
+
+// Keeps undo and redo working after a node's id changed, e.g. to the id a server assigned
+export const replaceNodeId = (history: TreeHistory, nodeId: string, newId: string): TreeHistory => {
+  const mapId = (id: string) => (id === nodeId ? newId : id);
+  const mapEntry = (entry: HistoryEntry): HistoryEntry => {
+    const command = mapCommandIds(entry.command, mapId);
+    return command === entry.command ? entry : { ...entry, command };
+  };
+  return { past: history.past.map(mapEntry), future: history.future.map(mapEntry) };
+};
+
+// Commands are plain data, so a rolled-back copy can be recognized by its contents
+const isSameCommand = (a: TreeCommand, b: TreeCommand) => JSON.stringify(a) === JSON.stringify(b);
+
+// Helper to drop a single-node command from a command, possibly inside a batch; null if nothing is left
+const withoutCommand = (command: TreeCommand, removed: TreeCommand): TreeCommand | null => {
+  if (command.type !== 'batch') return isSameCommand(command, removed) ? null : command;
+  const commands = command.commands.flatMap(child => {
+    const remaining = withoutCommand(child, removed);
+    return remaining ? [remaining] : [];
+  });
+  if (commands.length === command.commands.length && commands.every((child, index) => child === command.commands[index])) return command;
+  return commands.length > 0 ? { type: 'batch', commands } : null;
+};
+
+// Forgets a single-node command that was rolled back outside the history (e.g. rejected by a server),
+// so undo and redo don't replay it
+export const forgetCommand = (history: TreeHistory, command: TreeCommand): TreeHistory => {
+  const forget = (entries: HistoryEntry[]) => entries.flatMap(entry => {
+    const remaining = withoutCommand(entry.command, command);
+    if (remaining === entry.command) return [entry];
+    return remaining ? [{ ...entry, command: remaining }] : [];
+  });
+  return { past: forget(history.past), future: forget(history.future) };
+};
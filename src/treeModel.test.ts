@@ -0,0 +1,213 @@
+// src/treeModel.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { TreeData } from './types';
+import * as treeModel from './treeModel';
+import { TreeStore } from './treeModel';
+import * as treeHistory from './treeHistory';
+import { TreeCommand } from './treeHistory';
+import { node } from './testUtils';
+
+// Helper to read a level of the tree as ids
+const childIds = (store: TreeStore, parentId: string | null) => treeModel.getChildIds(store, parentId);
+
+// docs
+//   guides
+//     setup
+//   api (collapsed)
+//     intro
+// lazy (unloaded)
+// notes
+const createTree = (): TreeData => [
+  node('docs', [
+    node('guides', [node('setup')], { isExpanded: true }),
+    node('api', [node('intro')], { isExpanded: false }),
+  ], { isExpanded: true }),
+  node('lazy', true),
+  node('notes'),
+];
+
+describe('queries', () => {
+  const store = treeModel.createModel(createTree());
+
+  it('lists ancestors from the root down', () => {
+    expect(treeModel.getAncestorIds(store, 'setup')).toEqual(['docs', 'guides']);
+    expect(treeModel.getAncestorIds(store, 'docs')).toEqual([]);
+    expect(treeModel.getAncestorIds(store, 'missing')).toEqual([]);
+    expect(treeModel.getParentId(store, 'intro')).toBe('api');
+    expect(treeModel.isAncestor(store, 'docs', 'intro')).toBe(true);
+    expect(treeModel.isAncestor(store, 'guides', 'intro')).toBe(false);
+  });
+
+  it('tells which nodes still have to load', () => {
+    expect(treeModel.needsLoad(store, 'lazy')).toBe(true);
+    expect(treeModel.needsLoad(store, 'notes')).toBe(false);
+    expect(treeModel.needsLoad(store, null)).toBe(false);
+  });
+
+  it('lists the visible rows, skipping collapsed children', () => {
+    const rows = treeModel.getVisibleNodes(treeModel.toTree(store));
+    expect(rows.map(row => [row.node.id, row.level])).toEqual([
+      ['docs', 0], ['guides', 1], ['setup', 2], ['api', 1], ['lazy', 0], ['notes', 0],
+    ]);
+    expect(rows[3]).toMatchObject({ posInSet: 2, setSize: 2 });
+  });
+
+  it('finds the parent a drop lands under', () => {
+    expect(treeModel.getDropParentId(store, 'api', 'child')).toBe('api');
+    expect(treeModel.getDropParentId(store, 'api', 'above')).toBe('docs');
+    expect(treeModel.getDropParentId(store, 'notes', 'below')).toBeNull();
+    expect(treeModel.getDropParentId(store, null, 'child')).toBeNull();
+  });
+
+  it('takes path steps by id or by name among loaded children', () => {
+    expect(treeModel.idStep('guides')(store, 'docs')).toBe('guides');
+    expect(treeModel.idStep('guides')(store, null)).toBeUndefined();
+    expect(treeModel.nameStep('api')(store, 'docs')).toBe('api');
+    expect(treeModel.nameStep('notes')(store, null)).toBe('notes');
+    expect(treeModel.nameStep('anything')(store, 'lazy')).toBeUndefined();
+  });
+});
+
+describe('edits', () => {
+  it('inserts at an index and expands the parent', () => {
+    const store = treeModel.insert(treeModel.createModel(createTree()), 'api', node('reference'), 0);
+    expect(childIds(store, 'api')).toEqual(['reference', 'intro']);
+    expect(treeModel.getNode(store, 'reference')?.parentId).toBe('api');
+    expect(treeModel.getNode(store, 'api')?.isExpanded).toBe(true);
+  });
+
+  it("won't insert under a missing or unloaded parent", () => {
+    const store = treeModel.createModel(createTree());
+    expect(treeModel.insert(store, 'missing', node('orphan'))).toBe(store);
+    expect(treeModel.insert(store, 'lazy', node('early'))).toBe(store);
+  });
+
+  it('removes nodes with their subtrees, skipping ids inside removed ones', () => {
+    const store = treeModel.remove(treeModel.createModel(createTree()), ['setup', 'guides', 'notes']);
+    expect(childIds(store, 'docs')).toEqual(['api']);
+    expect(childIds(store, null)).toEqual(['docs', 'lazy']);
+    expect(treeModel.getNode(store, 'setup')).toBeUndefined();
+  });
+
+  it('renames with the name trimmed, and ignores a rename to the same name', () => {
+    const store = treeModel.createModel(createTree());
+    expect(treeModel.getNode(treeModel.rename(store, 'notes', '  Notes  '), 'notes')?.name).toBe('Notes');
+    expect(treeModel.rename(store, 'notes', 'notes')).toBe(store);
+  });
+
+  it('toggles expansion, or sets it', () => {
+    const store = treeModel.createModel(createTree());
+    expect(treeModel.getNode(treeModel.toggle(store, 'api'), 'api')?.isExpanded).toBe(true);
+    expect(treeModel.getNode(treeModel.toggle(store, 'docs'), 'docs')?.isExpanded).toBe(false);
+    expect(treeModel.toggle(store, 'docs', true)).toBe(store);
+  });
+
+  it('loads children pages into a lazy node', () => {
+    let store = treeModel.loadChildren(treeModel.createModel(createTree()), 'lazy', { children: [node('a'), node('b')], nextCursor: 'page-2', remainingCount: 1 });
+    expect(treeModel.needsLoad(store, 'lazy')).toBe(false);
+    expect(childIds(store, 'lazy')).toEqual(['a', 'b']);
+    expect(treeModel.getNode(store, 'a')?.parentId).toBe('lazy');
+    expect(treeModel.getNode(store, 'lazy')?.childrenCursor).toBe('page-2');
+
+    store = treeModel.loadMoreChildren(store, 'lazy', treeModel.toChildrenPage([node('c')]));
+    expect(childIds(store, 'lazy')).toEqual(['a', 'b', 'c']);
+    expect(treeModel.getNode(store, 'lazy')?.childrenCursor).toBeUndefined();
+  });
+});
+
+describe('move', () => {
+  it('drops above and below a target', () => {
+    const store = treeModel.createModel(createTree());
+    expect(childIds(treeModel.move(store, ['notes'], 'docs', 'above'), null)).toEqual(['notes', 'docs', 'lazy']);
+    expect(childIds(treeModel.move(store, ['setup'], 'api', 'below'), 'docs')).toEqual(['guides', 'api', 'setup']);
+  });
+
+  it('drops into a collapsed parent at the end of its children and expands it', () => {
+    const store = treeModel.move(treeModel.createModel(createTree()), ['notes'], 'api', 'child');
+    expect(childIds(store, 'api')).toEqual(['intro', 'notes']);
+    expect(treeModel.getNode(store, 'api')?.isExpanded).toBe(true);
+    expect(treeModel.getVisibleNodes(treeModel.toTree(store)).map(row => row.node.id)).toContain('notes');
+  });
+
+  it('drops into a collapsed leaf, making it a parent', () => {
+    const store = treeModel.move(treeModel.createModel(createTree()), ['setup'], 'notes', 'child');
+    expect(childIds(store, 'notes')).toEqual(['setup']);
+    expect(childIds(store, 'guides')).toEqual([]);
+    expect(treeModel.getNode(store, 'notes')?.isExpanded).toBe(true);
+  });
+
+  it('refuses a drop into an unloaded lazy parent until it has loaded', () => {
+    const store = treeModel.createModel(createTree());
+    expect(treeModel.createMoveCommand(store, ['notes'], 'lazy', 'child')).toBeNull();
+    expect(treeModel.move(store, ['notes'], 'lazy', 'child')).toBe(store);
+    expect(treeModel.canMove(store, ['notes'], 'lazy')).toBe(true); // Allowed once loaded
+
+    const loaded = treeModel.loadChildren(store, 'lazy', { children: [node('first')] });
+    expect(childIds(treeModel.move(loaded, ['notes'], 'lazy', 'child'), 'lazy')).toEqual(['first', 'notes']);
+  });
+
+  it('drops beside an unloaded lazy node without loading it', () => {
+    const store = treeModel.move(treeModel.createModel(createTree()), ['setup'], 'lazy', 'above');
+    expect(childIds(store, null)).toEqual(['docs', 'setup', 'lazy', 'notes']);
+    expect(treeModel.needsLoad(store, 'lazy')).toBe(true);
+  });
+
+  it('appends root-level drops to the end of the roots', () => {
+    const store = treeModel.move(treeModel.createModel(createTree()), ['intro'], null, 'child');
+    expect(childIds(store, null)).toEqual(['docs', 'lazy', 'notes', 'intro']);
+    expect(treeModel.getNode(store, 'intro')?.parentId).toBeNull();
+    expect(childIds(store, 'api')).toEqual([]);
+  });
+
+  it('leaves the last root where it is on a root-level drop', () => {
+    const store = treeModel.createModel(createTree());
+    expect(treeModel.createMoveCommand(store, ['notes'], null, 'child')).toBeNull();
+    expect(treeModel.move(store, ['notes'], null, 'child')).toBe(store);
+  });
+
+  it('refuses drops onto a moved node or into its subtree', () => {
+    const store = treeModel.createModel(createTree());
+    expect(treeModel.canMove(store, ['docs'], 'docs')).toBe(false);
+    expect(treeModel.canMove(store, ['docs'], 'setup')).toBe(false);
+    expect(treeModel.canMove(store, ['notes', 'guides'], 'setup')).toBe(false);
+    expect(treeModel.move(store, ['docs'], 'intro', 'below')).toBe(store);
+    expect(treeModel.canMove(store, ['docs'], 'missing')).toBe(false);
+    expect(treeModel.canMove(store, ['missing'], null)).toBe(false);
+  });
+
+  it('keeps several dropped nodes together, in document order', () => {
+    const store = treeModel.move(treeModel.createModel(createTree()), ['notes', 'setup', 'intro'], 'docs', 'above');
+    expect(childIds(store, null)).toEqual(['setup', 'intro', 'notes', 'docs', 'lazy']);
+  });
+
+  it('moves a node together with its selected descendants as one subtree', () => {
+    const store = treeModel.move(treeModel.createModel(createTree()), ['setup', 'guides'], null, 'child');
+    expect(childIds(store, null)).toEqual(['docs', 'lazy', 'notes', 'guides']);
+    expect(childIds(store, 'guides')).toEqual(['setup']);
+  });
+
+  it('builds a multi-node move as a single batch command', () => {
+    const store = treeModel.createModel(createTree());
+    const command = treeModel.createMoveCommand(store, ['notes', 'setup'], 'api', 'child');
+    expect(command?.type).toBe('batch');
+    expect(childIds(treeModel.move(store, ['notes', 'setup'], 'api', 'child'), 'api')).toEqual(['intro', 'setup', 'notes']);
+  });
+
+  it('leaves parents opened or closed as they were when a move or remove is undone', () => {
+    const store = treeModel.createModel(createTree());
+    const undo = (command: TreeCommand, before: TreeStore) => treeHistory.applyCommand(treeHistory.applyCommand(before, command), treeHistory.invertCommand(command));
+    const isExpanded = (currentStore: TreeStore, nodeId: string) => treeModel.getNode(currentStore, nodeId)?.isExpanded;
+
+    // Moving intro out of the collapsed api doesn't open api when intro goes back
+    const moveOut = treeModel.createMoveCommand(store, ['intro'], 'notes', 'below');
+    expect(isExpanded(undo(moveOut, store), 'api')).toBe(false);
+    // Moving notes into api opened it; undo closes it again
+    const moveIn = treeModel.createMoveCommand(store, ['notes'], 'api', 'child');
+    expect(isExpanded(treeHistory.applyCommand(store, moveIn), 'api')).toBe(true);
+    expect(isExpanded(undo(moveIn, store), 'api')).toBe(false);
+    // Undoing the removal of intro puts it back without opening api
+    const remove = treeModel.createRemoveCommand(store, ['intro']);
+    expect(isExpanded(undo(remove, store), 'api')).toBe(false);
+    expect(childIds(undo(remove, store), 'api')).toEqual(['intro']);
+  });
+});
@@ -0,0 +1,136 @@
+// src/treeModel.ts
+import { ChildrenPage, DropPosition, ITreeNode, TreeData, VisibleNode } from './types';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+import * as treeHistory from './treeHistory';
+import { TreeCommand } from './treeHistory';
+
+// The tree model without React or the DOM: a normalized store, typed operations on it and queries about it.
+// Operations return the next store, or the same store when they don't apply. Each edit also comes as an
+// undoable command (see treeHistory), which is how useTree and TreeView run them.
+
+export type { StoreNode, TreeStore } from './treeStore';
+export { createStore as createModel, toTree, getNode, getTreeNode, getChildIds, getPath, getLevel, isAncestor, isExpandable, getTopLevelIds } from './treeStore';
+
+// --- Queries ---
+
+export const getParentId = (store: TreeStore, nodeId: string): string | null => treeStore.getNode(store, nodeId)?.parentId ?? null;
+
+// Ids of a node's ancestors, from its root down to its parent
+export const getAncestorIds = (store: TreeStore, nodeId: string): string[] => {
+  return (treeStore.getPath(store, nodeId) ?? []).slice(0, -1).map(node => node.id);
+};
+
+// Whether a node's children still have to be fetched: it is lazy and hasn't been loaded (null, the root, never is)
+export const needsLoad = (store: TreeStore, nodeId: string | null): boolean => {
+  return nodeId !== null && treeStore.getNode(store, nodeId)?.childIds === true;
+};
+
+// The rows a tree shows: the roots plus the children of expanded nodes, in display order
+export const getVisibleNodes = (tree: TreeData, level: number = 0): VisibleNode[] => {
+  return tree.flatMap((node, index) => {
+    const visibleNode: VisibleNode = { node, level, posInSet: index + 1, setSize: tree.length };
+    if (node.isExpanded && Array.isArray(node.children)) {
+      return [visibleNode, ...getVisibleNodes(node.children, level + 1)];
+    }
+    return [visibleNode];
+  });
+};
+
+// The parent that nodes dropped at a target end up under (null for the root)
+export const getDropParentId = (store: TreeStore, targetNodeId: string | null, position: DropPosition): string | null => {
+  return targetNodeId === null || position === 'child' ? targetNodeId : getParentId(store, targetNodeId);
+};
+
+// Whether nodes can be dropped at a target: it exists and isn't one of them or inside one of them. A drop
+// parent that needsLoad can still take them once its children are in.
+export const canMove = (store: TreeStore, nodeIds: string[], targetNodeId: string | null): boolean => {
+  if (targetNodeId !== null && !treeStore.getNode(store, targetNodeId)) return false;
+  const topLevelIds = treeStore.getTopLevelIds(store, nodeIds);
+  return topLevelIds.length > 0 && !topLevelIds.some(nodeId => nodeId === targetNodeId || (targetNodeId !== null && treeStore.isAncestor(store, nodeId, targetNodeId)));
+};
+
+// One step down a path: picks a child of parentId (null for the roots), or undefined if none of the loaded ones fits
+export type PathStep = (store: TreeStore, parentId: string | null) => string | undefined;
+
+export const idStep = (nodeId: string): PathStep => (store, parentId) => (treeStore.getNode(store, nodeId)?.parentId === parentId ? nodeId : undefined);
+
+// Names needn't be unique among siblings; the first match wins
+export const nameStep = (name: string): PathStep => (store, parentId) => {
+  return treeStore.getChildIds(store, parentId).find(childId => treeStore.getNode(store, childId)?.name === name);
+};
+
+// A loader's result as a page; a loader that returned every child at once returned a single, last page
+export const toChildrenPage = (result: ITreeNode[] | ChildrenPage): ChildrenPage => (Array.isArray(result) ? { children: result } : result);
+
+// --- Commands ---
+
+// Inserts a node, with its loaded subtree, at index among the parent's children (the end by default).
+// null if the parent is gone or its children haven't been loaded.
+export const createInsertCommand = (store: TreeStore, parentId: string | null, node: ITreeNode, index?: number): TreeCommand | null => {
+  if (parentId !== null && !treeStore.getNode(store, parentId)) return null;
+  if (needsLoad(store, parentId)) return null;
+  return treeHistory.createAddCommand(store, parentId, node, index);
+};
+
+// Removes several nodes as one command; ids inside an already removed subtree are skipped. null if none exist.
+export const createRemoveCommand = (store: TreeStore, nodeIds: string[]): TreeCommand | null => {
+  return treeHistory.createBatchCommand(store, treeStore.getTopLevelIds(store, nodeIds).map(nodeId => (batchStore: TreeStore) => {
+    return treeHistory.createRemoveCommand(batchStore, nodeId);
+  }));
+};
+
+export const createRenameCommand = (store: TreeStore, nodeId: string, name: string): TreeCommand | null => {
+  return treeHistory.createRenameCommand(store, nodeId, name.trim());
+};
+
+// Moves several nodes to a drop target (null for the root) as one command, keeping their document order: the
+// first goes to the target, each following one right after the previous. null if canMove refuses, the drop
+// parent needsLoad (the move would replace its unloaded children) or nothing moves.
+export const createMoveCommand = (store: TreeStore, nodeIds: string[], targetNodeId: string | null, position: DropPosition): TreeCommand | null => {
+  if (!canMove(store, nodeIds, targetNodeId) || needsLoad(store, getDropParentId(store, targetNodeId, position))) return null;
+  const topLevelIds = treeStore.getTopLevelIds(store, nodeIds);
+  return treeHistory.createBatchCommand(store, topLevelIds.map((nodeId, i) => (batchStore: TreeStore) => {
+    const destination = i === 0
+      ? treeStore.getMoveDestination(batchStore, nodeId, targetNodeId, position)
+      : treeStore.getMoveDestination(batchStore, nodeId, topLevelIds[i - 1], 'below');
+    return treeHistory.createMoveCommand(batchStore, nodeId, destination);
+  }));
+};
+
+// --- Operations ---
+
+// Helper to apply a command built against the store, if there is one
+const run = (store: TreeStore, command: TreeCommand | null): TreeStore => (command ? treeHistory.applyCommand(store, command) : store);
+
+// Inserting into a collapsed parent expands it, so the new node shows
+export const insert = (store: TreeStore, parentId: string | null, node: ITreeNode, index?: number): TreeStore => {
+  return run(store, createInsertCommand(store, parentId, node, index));
+};
+
+export const remove = (store: TreeStore, nodeIds: string[]): TreeStore => run(store, createRemoveCommand(store, nodeIds));
+
+export const rename = (store: TreeStore, nodeId: string, name: string): TreeStore => run(store, createRenameCommand(store, nodeId, name));
+
+// Dropping into a collapsed parent expands it, so the moved nodes stay in view
+export const move = (store: TreeStore, nodeIds: string[], targetNodeId: string | null, position: DropPosition): TreeStore => {
+  return run(store, createMoveCommand(store, nodeIds, targetNodeId, position));
+};
+
+// Expands or collapses a node, flipping it by default. Expanding a lazy node doesn't load it: when needsLoad
+// says so, fetch the children and hand them to loadChildren.
+export const toggle = (store: TreeStore, nodeId: string, isExpanded?: boolean): TreeStore => {
+  const node = treeStore.getNode(store, nodeId);
+  if (!node) return store;
+  return treeStore.setExpanded(store, [nodeId], isExpanded ?? !node.isExpanded);
+};
+
+// Replaces a node's children with the first (or only) page a loader returned
+export const loadChildren = (store: TreeStore, nodeId: string, page: ChildrenPage): TreeStore => {
+  return treeStore.setChildren(store, nodeId, page.children, page.nextCursor, page.remainingCount);
+};
+
+// Appends a further page after the children already loaded
+export const loadMoreChildren = (store: TreeStore, nodeId: string, page: ChildrenPage): TreeStore => {
+  return treeStore.appendChildren(store, nodeId, page.children, page.nextCursor, page.remainingCount);
+};
@@ -0,0 +1,170 @@
+// src/treeOperations.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { TreeData, TreeOperation } from './types';
+import * as treeOperations from './treeOperations';
+import { ReplicaState } from './treeOperations';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+import * as treeHistory from './treeHistory';
+import { TreeCommand } from './treeHistory';
+import { node, toNames } from './testUtils';
+
+// a
+//   a1, a2, a3
+// b
+// c
+const createTree = (): TreeData => [node('a', [node('a1'), node('a2'), node('a3')]), node('b'), node('c')];
+
+interface Replica {
+  state: ReplicaState;
+  store: TreeStore;
+}
+
+const createReplica = (actorId: string, tree: TreeData = createTree()): Replica => ({
+  state: treeOperations.createReplicaState(actorId),
+  store: treeStore.createStore(tree),
+});
+
+// Helper to make a local edit, returning the operations it sends
+const edit = (replica: Replica, command: TreeCommand): TreeOperation[] => {
+  const operations = treeOperations.toOperations(replica.state, replica.store, command);
+  replica.store = treeHistory.applyCommand(replica.store, command);
+  return operations;
+};
+
+const deliver = (replica: Replica, operations: TreeOperation[]) => {
+  operations.forEach(operation => {
+    replica.store = treeOperations.applyOperation(replica.state, replica.store, operation).store;
+  });
+};
+
+// Helper to read a replica's tree as nested names, which is what has to agree everywhere
+const namesOf = (replica: Replica) => toNames(treeStore.toTree(replica.store));
+
+const move = (store: TreeStore, nodeId: string, parentId: string | null, index: number): TreeCommand => {
+  return { type: 'move', nodeId, from: treeStore.getPosition(store, nodeId), to: { parentId, index } };
+};
+
+const rename = (store: TreeStore, nodeId: string, name: string): TreeCommand => {
+  return { type: 'rename', nodeId, from: treeStore.getNode(store, nodeId).name, to: name };
+};
+
+describe('position keys', () => {
+  it('always finds a key between two adjacent keys', () => {
+    const first = treeOperations.keyBetween(null, null);
+    let last = treeOperations.keyBetween(first, null);
+    for (let i = 0; i < 200; i++) {
+      const key = treeOperations.keyBetween(first, last);
+      expect(key > first && key < last).toBe(true);
+      expect(key.endsWith('0')).toBe(false);
+      last = key;
+    }
+    expect(last.length).toBeLessThan(40);
+  });
+
+  it('keeps adding before the first key and after the last', () => {
+    let first = treeOperations.keyBetween(null, null);
+    let last = first;
+    for (let i = 0; i < 200; i++) {
+      const before = treeOperations.keyBetween(null, first);
+      const after = treeOperations.keyBetween(last, null);
+      expect(before < first && after > last).toBe(true);
+      first = before;
+      last = after;
+    }
+    expect(first).not.toBe('');
+  });
+
+  it('orders a run of keys between two others', () => {
+    const keys = treeOperations.keysBetween('1', '2', 50);
+    expect(new Set(keys).size).toBe(50);
+    expect([...keys].sort()).toEqual(keys);
+    expect(keys[0] > '1' && keys[49] < '2').toBe(true);
+  });
+
+  it('puts a key handed out twice after both', () => {
+    expect(treeOperations.keyBetween('V', 'V') > 'V').toBe(true);
+    expect(treeOperations.keyBetween('V', 'U') > 'V').toBe(true);
+  });
+});
+
+describe('applying operations', () => {
+  it('keys children that arrived without keys the same way on every replica', () => {
+    const alice = createReplica('alice');
+    const bob = createReplica('bob');
+    deliver(bob, edit(alice, move(alice.store, 'a3', 'a', 1)));
+    deliver(bob, edit(alice, move(alice.store, 'c', null, 0)));
+    expect(namesOf(bob)).toEqual(namesOf(alice));
+    expect(namesOf(bob)).toEqual(['c', { a: ['a1', 'a3', 'a2'] }, 'b']);
+  });
+
+  it('converges whichever order concurrent edits arrive in', () => {
+    const alice = createReplica('alice');
+    const bob = createReplica('bob');
+    const aliceOperations = [
+      ...edit(alice, { type: 'add', node: { ...node('x'), parentId: 'a' }, position: { parentId: 'a', index: 1 } }),
+      ...edit(alice, rename(alice.store, 'b', 'Alice')),
+      ...edit(alice, move(alice.store, 'c', 'a', 0)),
+    ];
+    const bobOperations = [
+      ...edit(bob, { type: 'add', node: { ...node('y'), parentId: 'a' }, position: { parentId: 'a', index: 1 } }),
+      ...edit(bob, rename(bob.store, 'b', 'Bob')),
+      ...edit(bob, move(bob.store, 'c', null, 0)),
+      ...edit(bob, { type: 'remove', node: treeStore.getTreeNode(bob.store, 'a2'), position: treeStore.getPosition(bob.store, 'a2') }),
+    ];
+    deliver(alice, bobOperations);
+    deliver(bob, aliceOperations);
+    expect(namesOf(alice)).toEqual(namesOf(bob));
+    // Bob's edits come later in the clock order (same clocks, larger actor id), so his rename and move win;
+    // x and y got the same key at once and are ordered by id
+    expect(namesOf(alice)).toEqual(['c', { a: ['a1', 'x', 'y', 'a3'] }, 'Bob']);
+  });
+
+  it('lets the later Lamport clock win even when its operation arrives first', () => {
+    const alice = createReplica('alice');
+    const bob = createReplica('bob');
+    const carol = createReplica('carol');
+    const first = edit(alice, rename(alice.store, 'b', 'First'));
+    const second = edit(alice, rename(alice.store, 'b', 'Second'));
+    const third = edit(alice, move(alice.store, 'b', 'a', 0));
+    deliver(bob, [...third, ...second, ...first]);
+    deliver(carol, [...first, ...second, ...third]);
+    expect(namesOf(bob)).toEqual(namesOf(alice));
+    expect(namesOf(carol)).toEqual(namesOf(alice));
+    expect(treeStore.getNode(bob.store, 'b').name).toBe('Second');
+    expect(bob.state.clock).toBe(3);
+  });
+
+  it('ignores an operation delivered twice', () => {
+    const alice = createReplica('alice');
+    const bob = createReplica('bob');
+    const operations = edit(alice, { type: 'add', node: node('x'), position: { parentId: null, index: 3 } });
+    deliver(bob, operations);
+    const { change } = treeOperations.applyOperation(bob.state, bob.store, operations[0]);
+    expect(change).toBeNull();
+    expect(treeStore.getChildIds(bob.store, null)).toEqual(['a', 'b', 'c', 'x']);
+  });
+
+  it('resolves a cycle made by two concurrent moves in favour of the later move', () => {
+    const alice = createReplica('alice');
+    const bob = createReplica('bob');
+    const aliceOperations = edit(alice, move(alice.store, 'b', 'c', 0));
+    const bobOperations = edit(bob, move(bob.store, 'c', 'b', 0));
+    deliver(alice, bobOperations);
+    deliver(bob, aliceOperations);
+    expect(namesOf(alice)).toEqual(namesOf(bob));
+    // Both moves have clock 1, so bob's wins and alice's b goes back to where it was
+    expect(namesOf(alice)).toEqual([{ a: ['a1', 'a2', 'a3'] }, { b: ['c'] }]);
+  });
+
+  it('merges two adds that used the same id instead of dropping either', () => {
+    const alice = createReplica('alice');
+    const bob = createReplica('bob');
+    const aliceOperations = edit(alice, { type: 'add', node: node('x', [{ ...node('from-alice'), parentId: 'x' }]), position: { parentId: null, index: 0 } });
+    const bobOperations = edit(bob, { type: 'add', node: { ...node('x', [{ ...node('from-bob'), parentId: 'x' }]), name: 'Bob', parentId: 'a' }, position: { parentId: 'a', index: 0 } });
+    deliver(alice, bobOperations);
+    deliver(bob, aliceOperations);
+    expect(namesOf(alice)).toEqual(namesOf(bob));
+    expect(namesOf(alice)).toEqual([{ a: [{ Bob: ['from-bob', 'from-alice'] }, 'a1', 'a2', 'a3'] }, 'b', 'c']);
+  });
+});
@@ -0,0 +1,367 @@
+// src/treeOperations.ts
+import { ITreeNode, OperationMeta, TreeChange, TreeOperation } from './types';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+import * as treeHistory from './treeHistory';
+import { TreeCommand } from './treeHistory';
+
+// --- Position keys ---
+
+// Position keys are the digits of a base-62 fraction, compared as plain strings. There is always room for a
+// key between two others, so placing a node never renumbers its siblings.
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Helper for a fraction between a and b (null standing for 1); keys never end in '0', so one always exists
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let commonLength = 0;
+    while ((a[commonLength] ?? '0') === b[commonLength]) commonLength++;
+    if (commonLength > 0) return b.slice(0, commonLength) + midpoint(a.slice(commonLength), b.slice(commonLength));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+// A key that sorts after before and ahead of after (null for the start or the end of the list). Two replicas
+// can hand out the same key at once; nothing fits between equal keys, so the new one goes after both.
+export const keyBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) return midpoint(before, null);
+  return midpoint(before ?? '', after);
+};
+
+// count keys in order between before and after, halving the gap each time so that they stay short
+export const keysBetween = (before: string | null, after: string | null, count: number): string[] => {
+  if (count <= 0) return [];
+  const middle = Math.floor(count / 2);
+  const key = keyBetween(before, after);
+  return [...keysBetween(before, key, middle), key, ...keysBetween(key, after, count - middle - 1)];
+};
+
+// --- Replica state ---
+
+// A node's last move, kept so that a move which loses a cycle conflict can be put back
+interface MoveStamp extends OperationMeta {
+  fromParentId: string | null;
+  fromKey: string | null;
+  previous?: MoveStamp; // Becomes the last move again if this one is put back
+}
+
+// What a replica remembers between operations. It lives in a ref and, like a cache, is updated in place by
+// the functions below: the nodes' position keys, the Lamport clock, the operations applied so far and the
+// operations behind each node's creation, current name and parent.
+export interface ReplicaState {
+  actorId: string;
+  clock: number;
+  keys: Map<string, string>; // Node id -> position key among its siblings
+  adds: Map<string, OperationMeta>; // Decides between two adds that used the same node id
+  renames: Map<string, OperationMeta>;
+  moves: Map<string, MoveStamp>;
+  appliedIds: Set<string>; // Operations already applied, so a repeated delivery is ignored
+}
+
+export const createReplicaState = (actorId: string): ReplicaState => ({
+  actorId,
+  clock: 0,
+  keys: new Map(),
+  adds: new Map(),
+  renames: new Map(),
+  moves: new Map(),
+  appliedIds: new Set(),
+});
+
+// Forgets every key, e.g. after the whole tree was replaced; the clock and applied operations are kept
+export const resetKeys = (state: ReplicaState) => {
+  state.keys.clear();
+  state.adds.clear();
+  state.renames.clear();
+  state.moves.clear();
+};
+
+// Helper to order two operations: by clock, then by actor id, so that every replica picks the same winner
+const compareMeta = (a: OperationMeta, b: OperationMeta): number => {
+  return a.clock - b.clock || (a.actorId < b.actorId ? -1 : a.actorId > b.actorId ? 1 : 0);
+};
+
+const nextMeta = (state: ReplicaState): OperationMeta => {
+  state.clock++;
+  return { id: `${state.actorId}:${state.clock}`, actorId: state.actorId, clock: state.clock };
+};
+
+// Helper to collect the ids in a node snapshot's loaded subtree, the node itself excluded
+const collectDescendantIds = (node: ITreeNode): string[] => {
+  return Array.isArray(node.children) ? node.children.flatMap(child => [child.id, ...collectDescendantIds(child)]) : [];
+};
+
+// Gives keys to the children of parentId that have none yet, between their keyed neighbours. Children
+// arrive without keys (initial data, lazy loads, the subtree of an added node) and get them the first time an
+// operation touches their parent. Until then the list is the same on every replica, so the keys agree
+// without ever being sent.
+const ensureKeys = (state: ReplicaState, store: TreeStore, parentId: string | null) => {
+  if (parentId !== null && !treeStore.getNode(store, parentId)) return;
+  let run: string[] = [];
+  let previousKey: string | null = null;
+  [...treeStore.getChildIds(store, parentId), null].forEach(childId => {
+    const key = childId === null ? null : state.keys.get(childId);
+    if (key === undefined) {
+      run.push(childId as string);
+      return;
+    }
+    keysBetween(previousKey, key, run.length).forEach((runKey, index) => state.keys.set(run[index], runKey));
+    run = [];
+    previousKey = key;
+  });
+};
+
+// Helper to key a node that has just been put in place, from its nearest keyed siblings
+const keyInPlace = (state: ReplicaState, store: TreeStore, nodeId: string): string => {
+  const siblingIds = treeStore.getChildIds(store, treeStore.getNode(store, nodeId)?.parentId ?? null);
+  const index = siblingIds.indexOf(nodeId);
+  const findKey = (ids: string[]) => ids.map(id => state.keys.get(id)).find(key => key !== undefined) ?? null;
+  const key = keyBetween(findKey(siblingIds.slice(0, index).reverse()), findKey(siblingIds.slice(index + 1)));
+  state.keys.set(nodeId, key);
+  return key;
+};
+
+// Helper for the index a key belongs at among a parent's other children; equal keys are ordered by node id
+const indexForKey = (state: ReplicaState, store: TreeStore, parentId: string | null, nodeId: string, key: string): number => {
+  const siblingIds = treeStore.getChildIds(store, parentId).filter(id => id !== nodeId);
+  const index = siblingIds.findIndex(id => {
+    const siblingKey = state.keys.get(id) ?? '';
+    return siblingKey > key || (siblingKey === key && id > nodeId);
+  });
+  return index === -1 ? siblingIds.length : index;
+};
+
+// Helper to drop the keys of a node and its loaded descendants before it leaves the store
+const forgetSubtree = (state: ReplicaState, store: TreeStore, nodeId: string) => {
+  treeStore.getSubtreeIds(store, nodeId).forEach(id => state.keys.delete(id));
+};
+
+// --- Local changes ---
+
+// The parents whose child lists a command changes
+const getTouchedParentIds = (store: TreeStore, command: TreeCommand): (string | null)[] => {
+  switch (command.type) {
+    case 'add':
+      return [command.position.parentId];
+    case 'remove':
+      return [treeStore.getNode(store, command.node.id)?.parentId ?? null];
+    case 'move':
+      return [treeStore.getNode(store, command.nodeId)?.parentId ?? null, command.to.parentId];
+    default:
+      return [];
+  }
+};
+
+// Describes a command that was just applied on top of prevStore as operations for the other replicas.
+// Each part of a batch is replayed on a copy of the store to key the nodes it places.
+export const toOperations = (state: ReplicaState, prevStore: TreeStore, command: TreeCommand): TreeOperation[] => {
+  let currentStore = prevStore;
+  return treeHistory.flattenCommand(command).flatMap((single): TreeOperation[] => {
+    getTouchedParentIds(currentStore, single).forEach(parentId => ensureKeys(state, currentStore, parentId));
+    const prevNode = single.type === 'move' ? treeStore.getNode(currentStore, single.nodeId) : undefined;
+    const nextStore = treeHistory.applyCommand(currentStore, single);
+    if (nextStore === currentStore) return []; // Refers to a node another replica has since removed
+    const storeBefore = currentStore;
+    currentStore = nextStore;
+
+    switch (single.type) {
+      case 'add': {
+        const meta = nextMeta(state);
+        state.adds.set(single.node.id, meta);
+        return [{ ...meta, type: 'add', node: single.node, parentId: single.position.parentId, positionKey: keyInPlace(state, nextStore, single.node.id) }];
+      }
+      case 'remove':
+        forgetSubtree(state, storeBefore, single.node.id);
+        return [{ ...nextMeta(state), type: 'remove', nodeId: single.node.id, descendantIds: collectDescendantIds(single.node) }];
+      case 'rename': {
+        const meta = nextMeta(state);
+        state.renames.set(single.nodeId, meta);
+        return [{ ...meta, type: 'rename', nodeId: single.nodeId, name: single.to }];
+      }
+      case 'move': {
+        const meta = nextMeta(state);
+        const fromKey = state.keys.get(single.nodeId) ?? null;
+        state.moves.set(single.nodeId, { ...meta, fromParentId: prevNode?.parentId ?? null, fromKey, previous: state.moves.get(single.nodeId) });
+        return [{ ...meta, type: 'move', nodeId: single.nodeId, parentId: single.to.parentId, positionKey: keyInPlace(state, nextStore, single.nodeId) }];
+      }
+      default:
+        return [];
+    }
+  });
+};
+
+// --- Remote changes ---
+
+export interface AppliedOperation {
+  store: TreeStore;
+  change: TreeChange | null; // null when the operation was a repeat or lost a conflict
+}
+
+// Helper to leave out the parts of an added subtree that are already in the store (e.g. moved out of it
+// by another replica before the add was undone)
+const withoutExistingNodes = (store: TreeStore, node: ITreeNode): ITreeNode => {
+  if (!Array.isArray(node.children)) return node;
+  const children = node.children.filter(child => !treeStore.getNode(store, child.id)).map(child => withoutExistingNodes(store, child));
+  return { ...node, children };
+};
+
+// Helper to check that a parent can take children here: it exists and its children have been loaded
+const canHoldChildren = (store: TreeStore, parentId: string | null): boolean => {
+  return parentId === null || Array.isArray(treeStore.getNode(store, parentId)?.childIds);
+};
+
+// Helper to remove a node and its loaded subtree, keys included
+const removeSubtree = (state: ReplicaState, store: TreeStore, nodeId: string): TreeStore => {
+  ensureKeys(state, store, treeStore.getNode(store, nodeId)?.parentId ?? null);
+  forgetSubtree(state, store, nodeId);
+  return treeStore.removeNode(store, nodeId);
+};
+
+// Helper to describe where a node now is to onChange
+const toMoveChange = (store: TreeStore, nodeId: string): TreeChange => {
+  const position = treeStore.getPosition(store, nodeId) as { parentId: string | null; index: number };
+  return { type: 'move', nodeId, ...position };
+};
+
+// Helper to put a node under parentId at the place its key says
+const placeNode = (state: ReplicaState, store: TreeStore, nodeId: string, parentId: string | null, key: string): TreeStore => {
+  state.keys.set(nodeId, key);
+  return treeStore.moveNodeTo(store, nodeId, parentId, indexForKey(state, store, parentId, nodeId, key));
+};
+
+// A move that would put a node inside its own subtree conflicts with a concurrent move on the way up. The
+// later of the two wins: if that is this one, the node that made the cycle goes back to where it came from.
+// Returns the store with that node put back and its id, or null if the incoming move loses.
+const resolveCycle = (state: ReplicaState, store: TreeStore, op: Extract<TreeOperation, { type: 'move' }>): { store: TreeStore; revertedId: string } | null => {
+  const path = op.parentId === null ? [] : treeStore.getPath(store, op.parentId) ?? [];
+  const cycleIds = path.slice(path.findIndex(node => node.id === op.nodeId) + 1).map(node => node.id);
+  const latestId = cycleIds.reduce<string | null>((latest, id) => {
+    const stamp = state.moves.get(id);
+    const latestStamp = latest === null ? undefined : state.moves.get(latest);
+    return stamp && (!latestStamp || compareMeta(stamp, latestStamp) > 0) ? id : latest;
+  }, null);
+  const latest = latestId === null ? undefined : state.moves.get(latestId);
+  if (latestId === null || !latest || compareMeta(latest, op) > 0 || latest.fromKey === null) return null;
+  if (!canHoldChildren(store, latest.fromParentId)) return null;
+  if (latest.fromParentId !== null && (latest.fromParentId === latestId || treeStore.isAncestor(store, latestId, latest.fromParentId))) return null;
+  const revertedStore = placeNode(state, store, latestId, latest.fromParentId, latest.fromKey);
+  if (treeStore.isAncestor(revertedStore, op.nodeId, op.parentId as string)) {
+    state.keys.set(latestId, latest.fromKey); // Nothing was applied; placeNode only changed the key
+    return null;
+  }
+  if (latest.previous) {
+    state.moves.set(latestId, latest.previous);
+  } else {
+    state.moves.delete(latestId);
+  }
+  return { store: revertedStore, revertedId: latestId };
+};
+
+// Helper to check that a node can be put under parentId without ending up inside its own subtree
+const canPlaceUnder = (store: TreeStore, nodeId: string, parentId: string | null): boolean => {
+  return canHoldChildren(store, parentId) && (parentId === null || (parentId !== nodeId && !treeStore.isAncestor(store, nodeId, parentId)));
+};
+
+// Two replicas added a node under the same id (e.g. both pasted from one saved tree). Neither add is dropped:
+// the node takes the name and place of the later one, unless a later rename or move says otherwise, and gets
+// the children both brought along, the later add's first.
+const mergeAdd = (state: ReplicaState, store: TreeStore, op: Extract<TreeOperation, { type: 'add' }>): AppliedOperation => {
+  const nodeId = op.node.id;
+  const lastAdd = state.adds.get(nodeId);
+  const isLater = !lastAdd || compareMeta(lastAdd, op) < 0;
+  const { id, actorId, clock } = op;
+  const changes: TreeChange[] = [];
+  let currentStore = store;
+  if (isLater) {
+    state.adds.set(nodeId, { id, actorId, clock });
+    const lastRename = state.renames.get(nodeId);
+    if (!lastRename || compareMeta(lastRename, op) < 0) {
+      state.renames.set(nodeId, { id, actorId, clock });
+      currentStore = treeStore.updateNode(currentStore, nodeId, record => ({ ...record, name: op.node.name }));
+      changes.push({ type: 'rename', nodeId, name: op.node.name });
+    }
+    const lastMove = state.moves.get(nodeId);
+    const fromParentId = treeStore.getNode(currentStore, nodeId)?.parentId ?? null;
+    if ((!lastMove || compareMeta(lastMove, op) < 0) && canPlaceUnder(currentStore, nodeId, op.parentId)) {
+      ensureKeys(state, currentStore, fromParentId);
+      ensureKeys(state, currentStore, op.parentId);
+      state.moves.set(nodeId, { id, actorId, clock, fromParentId, fromKey: state.keys.get(nodeId) ?? null, previous: lastMove });
+      currentStore = placeNode(state, currentStore, nodeId, op.parentId, op.positionKey);
+      changes.push(toMoveChange(currentStore, nodeId));
+    }
+  }
+  const { children } = withoutExistingNodes(currentStore, op.node);
+  if (Array.isArray(children) && children.length > 0 && canHoldChildren(currentStore, nodeId)) {
+    const index = isLater ? 0 : treeStore.getChildIds(currentStore, nodeId).length;
+    currentStore = treeStore.insertNodes(currentStore, nodeId, children, index);
+    children.forEach((child, offset) => changes.push({ type: 'add', node: child, parentId: nodeId, index: index + offset }));
+  }
+  if (changes.length === 0) return { store, change: null };
+  return { store: currentStore, change: changes.length === 1 ? changes[0] : { type: 'batch', changes } };
+};
+
+// Merges an operation from another replica into the store. Concurrent edits resolve the same way everywhere:
+// a rename or move loses to a later one of the same node, two adds of one id merge into one node, a node moved or added into a subtree that was
+// removed is removed with it, and a move into a parent that hasn't loaded its children here drops the node
+// until that parent loads. The state is updated in place.
+export const applyOperation = (state: ReplicaState, store: TreeStore, op: TreeOperation): AppliedOperation => {
+  const unchanged = { store, change: null };
+  if (state.appliedIds.has(op.id)) return unchanged;
+  state.appliedIds.add(op.id);
+  state.clock = Math.max(state.clock, op.clock);
+
+  switch (op.type) {
+    case 'add': {
+      if (treeStore.getNode(store, op.node.id)) return mergeAdd(state, store, op);
+      if (!canHoldChildren(store, op.parentId)) return unchanged;
+      ensureKeys(state, store, op.parentId);
+      const node = { ...withoutExistingNodes(store, op.node), parentId: op.parentId };
+      const index = indexForKey(state, store, op.parentId, node.id, op.positionKey);
+      const { id, actorId, clock } = op;
+      state.adds.set(node.id, { id, actorId, clock });
+      state.keys.set(node.id, op.positionKey);
+      return { store: treeStore.insertNodes(store, op.parentId, [node], index), change: { type: 'add', node, parentId: op.parentId, index } };
+    }
+    case 'remove': {
+      const removedIds = [op.nodeId, ...op.descendantIds].filter(id => treeStore.getNode(store, id));
+      if (removedIds.length === 0) return unchanged;
+      const nextStore = removedIds.reduce((currentStore, id) => removeSubtree(state, currentStore, id), store);
+      const changes: TreeChange[] = removedIds.map(nodeId => ({ type: 'remove', nodeId }));
+      return { store: nextStore, change: changes.length === 1 ? changes[0] : { type: 'batch', changes } };
+    }
+    case 'rename': {
+      const node = treeStore.getNode(store, op.nodeId);
+      const lastRename = state.renames.get(op.nodeId);
+      if (!node || (lastRename && compareMeta(lastRename, op) > 0)) return unchanged;
+      state.renames.set(op.nodeId, op);
+      return { store: treeStore.updateNode(store, op.nodeId, record => ({ ...record, name: op.name })), change: { type: 'rename', nodeId: op.nodeId, name: op.name } };
+    }
+    case 'move': {
+      const node = treeStore.getNode(store, op.nodeId);
+      const lastMove = state.moves.get(op.nodeId);
+      if (!node || (lastMove && compareMeta(lastMove, op) > 0)) return unchanged;
+      if (!canHoldChildren(store, op.parentId)) {
+        return { store: removeSubtree(state, store, op.nodeId), change: { type: 'remove', nodeId: op.nodeId } };
+      }
+      ensureKeys(state, store, node.parentId);
+      ensureKeys(state, store, op.parentId);
+      const changes: TreeChange[] = [];
+      let currentStore = store;
+      if (!canPlaceUnder(store, op.nodeId, op.parentId)) {
+        const resolved = resolveCycle(state, store, op);
+        if (!resolved) return unchanged;
+        currentStore = resolved.store;
+        changes.push(toMoveChange(currentStore, resolved.revertedId));
+      }
+      const { id, actorId, clock } = op;
+      state.moves.set(op.nodeId, { id, actorId, clock, fromParentId: node.parentId, fromKey: state.keys.get(op.nodeId) ?? null, previous: lastMove });
+      currentStore = placeNode(state, currentStore, op.nodeId, op.parentId, op.positionKey);
+      changes.push(toMoveChange(currentStore, op.nodeId));
+      return { store: currentStore, change: changes.length === 1 ? changes[0] : { type: 'batch', changes } };
+    }
+  }
+};
@@ -0,0 +1,65 @@
+// src/treePersistence.ts
+import { PersistedTreeState, PersistMigration, StorageAdapter } from './types';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+import { withManualOrder } from './treeSort';
+
+export const DEFAULT_PERSIST_VERSION = 1;
+
+// --- Built-in adapters ---
+
+export const createLocalStorageAdapter = (storage: Storage = window.localStorage): StorageAdapter => ({
+  getItem: key => storage.getItem(key),
+  setItem: (key, value) => storage.setItem(key, value),
+  removeItem: key => storage.removeItem(key),
+});
+
+// Keeps state for the lifetime of the page only; handy for tests and for sharing state between remounts
+export const createMemoryAdapter = (initialItems: Record<string, string> = {}): StorageAdapter => {
+  const items = new Map(Object.entries(initialItems));
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); },
+  };
+};
+
+// --- Serialization ---
+
+export const createPersistedState = (store: TreeStore, selectedIds: string[], version: number, includeTree: boolean): PersistedTreeState => ({
+  version,
+  tree: includeTree ? withManualOrder(treeStore.toTree(store)) : undefined, // Restored through createStore, which reads `order` back
+  expandedIds: Object.values(store.byId).filter(node => node.isExpanded).map(node => node.id),
+  selectedIds,
+});
+
+export type ParsedPersistedState = { state: PersistedTreeState; error?: undefined } | { state: null; error: string }; // error says why the value was unusable
+
+// Helper for a stored value that can't be used
+const unusable = (error: string): ParsedPersistedState => ({ state: null, error });
+
+// Parses a stored value and upgrades it to the current version. Anything unusable comes back with the reason
+// instead of a state, so a corrupt or outdated entry falls back to the initial tree instead of breaking the mount.
+export const parsePersistedState = (value: string, version: number, migrations: Record<number, PersistMigration> = {}): ParsedPersistedState => {
+  let state: Record<string, unknown>;
+  try {
+    state = JSON.parse(value);
+  } catch (error) {
+    return unusable(`Ignoring persisted tree state that is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof state !== 'object' || state === null) return unusable('Ignoring persisted tree state that is not an object.');
+
+  let storedVersion = typeof state.version === 'number' ? state.version : 0;
+  if (storedVersion > version) return unusable(`Ignoring persisted tree state saved by a newer version (${storedVersion} > ${version}).`);
+  while (storedVersion < version) {
+    const migrate = migrations[storedVersion];
+    if (!migrate) return unusable(`Ignoring persisted tree state: no migration from version ${storedVersion}.`);
+    state = { ...migrate(state), version: storedVersion + 1 };
+    storedVersion += 1;
+  }
+
+  if (!Array.isArray(state.expandedIds) || !Array.isArray(state.selectedIds) || (state.tree !== undefined && !Array.isArray(state.tree))) {
+    return unusable('Ignoring persisted tree state with an unexpected shape.');
+  }
+  return { state: state as unknown as PersistedTreeState };
+};
@@ -0,0 +1,185 @@
+// src/treeRules.ts
+import { ActionRefusal, DropPosition, ITreeNode, NameValidator, TreeSchema } from './types';
+import * as treeStore from './treeStore';
+import { StoreNode, TreeStore } from './treeStore';
+
+// The consumer-supplied rules every mutation is checked against. Hooks see nested nodes; returning false refuses.
+export interface TreeRules {
+  canDrag?: (node: ITreeNode) => boolean;
+  canDrop?: (dragged: ITreeNode[], target: ITreeNode | null, position: DropPosition) => boolean;
+  canRename?: (node: ITreeNode) => boolean;
+  canRemove?: (node: ITreeNode) => boolean;
+  schema?: TreeSchema;
+  validateName?: NameValidator;
+}
+
+// The default name validator: no two siblings share a name
+export const rejectDuplicateNames: NameValidator = (name, parent, siblings) => {
+  return siblings.some(sibling => sibling.name === name) ? `There is already a node named "${name}" here` : null;
+};
+
+// Helper to describe a node in refusal messages
+const describe = (node: { name: string }) => `"${node.name}"`;
+
+type SubtreeEntry = { node: { name: string; type?: string }; depth: number };
+
+// Helper to list a node and its loaded descendants, each with its depth below the node
+const collectSubtree = (store: TreeStore, nodeId: string, depth: number = 0): SubtreeEntry[] => {
+  const node = store.byId[nodeId];
+  return [{ node, depth }, ...treeStore.getChildIds(store, nodeId).flatMap(childId => collectSubtree(store, childId, depth + 1))];
+};
+
+// Helper to do the same for a nested node that isn't (or is no longer) in the store, e.g. a copied subtree
+const collectNestedSubtree = (node: ITreeNode, depth: number = 0): SubtreeEntry[] => {
+  const children = Array.isArray(node.children) ? node.children : [];
+  return [{ node, depth }, ...children.flatMap(child => collectNestedSubtree(child, depth + 1))];
+};
+
+// Helper to find the parent nodes dropped at a target end up under (null for the root)
+const getTargetParentId = (store: TreeStore, targetNodeId: string | null, position: DropPosition): string | null => {
+  return targetNodeId === null || position === 'child' ? targetNodeId : store.byId[targetNodeId].parentId;
+};
+
+type SchemaViolation = Pick<ActionRefusal, 'reason' | 'message'>;
+
+// Checks a node type against the global and per-type depth limits at a level (0 = root)
+const checkDepth = (schema: TreeSchema, nodeType: string | undefined, level: number): SchemaViolation | null => {
+  const maxDepth = Math.min(schema.maxDepth ?? Infinity, (nodeType && schema.types[nodeType]?.maxDepth) ?? Infinity);
+  if (level <= maxDepth) return null;
+  return { reason: 'max-depth', message: `This would nest nodes ${level + 1} levels deep; the limit is ${maxDepth + 1}` };
+};
+
+// Checks that a node type may sit under a parent (null for root) at a level
+const checkPlacement = (schema: TreeSchema, nodeType: string | undefined, parent: StoreNode | null, level: number): SchemaViolation | null => {
+  const allowedTypes = parent ? (parent.type ? schema.types[parent.type]?.allowedChildTypes : undefined) : schema.rootTypes;
+  if (parent && allowedTypes?.length === 0) {
+    return { reason: 'child-type', message: `${describe(parent)} can't have children` };
+  }
+  if (allowedTypes && (!nodeType || !allowedTypes.includes(nodeType))) {
+    const what = nodeType ? `"${nodeType}" nodes` : 'Untyped nodes';
+    return { reason: 'child-type', message: parent ? `${what} can't be placed inside ${describe(parent)}` : `${what} can't be placed at the root` };
+  }
+  return checkDepth(schema, nodeType, level);
+};
+
+// Checks a subtree placed under a parent at a level: the top node must be allowed there, and descendants come along,
+// so the whole subtree has to fit under the depth limits
+const checkSubtree = (schema: TreeSchema, subtree: SubtreeEntry[], parent: StoreNode | null, level: number): SchemaViolation | null => {
+  const violation = checkPlacement(schema, subtree[0].node.type, parent, level);
+  if (violation) return violation;
+  const tooDeep = subtree.slice(1).find(({ node, depth }) => checkDepth(schema, node.type, level + depth));
+  return tooDeep ? { reason: 'max-depth', message: `${describe(tooDeep.node)} would end up deeper than the depth limit allows` } : null;
+};
+
+// Helper to check subtrees against the schema as they would sit at a drop target
+const checkSubtreesAt = (store: TreeStore, schema: TreeSchema, subtrees: SubtreeEntry[][], targetNodeId: string | null, position: DropPosition): SchemaViolation | null => {
+  const parentId = getTargetParentId(store, targetNodeId, position);
+  const parent = parentId === null ? null : store.byId[parentId];
+  const level = parentId === null ? 0 : treeStore.getLevel(store, parentId) + 1;
+  for (const subtree of subtrees) {
+    const violation = checkSubtree(schema, subtree, parent, level);
+    if (violation) return violation;
+  }
+  return null;
+};
+
+// The type a node created under a parent gets: the first type the schema allows there
+export const getDefaultChildType = (store: TreeStore, schema: TreeSchema | undefined, parentId: string | null): string | undefined => {
+  if (!schema) return undefined;
+  const parentType = parentId === null ? undefined : treeStore.getNode(store, parentId)?.type;
+  const allowedTypes = parentId === null ? schema.rootTypes : parentType ? schema.types[parentType]?.allowedChildTypes : undefined;
+  return allowedTypes?.[0];
+};
+
+export const checkDrag = (store: TreeStore, rules: TreeRules, nodeIds: string[]): ActionRefusal | null => {
+  const lockedId = nodeIds.find(nodeId => rules.canDrag && !rules.canDrag(treeStore.getTreeNode(store, nodeId)));
+  if (!lockedId) return null;
+  return { action: 'drag', nodeIds, reason: 'can-drag', message: `${describe(store.byId[lockedId])} can't be moved` };
+};
+
+// Checks moving nodes to a drop target (null for the root), as a drop or a keyboard move would
+export const checkMove = (store: TreeStore, rules: TreeRules, nodeIds: string[], targetNodeId: string | null, position: DropPosition): ActionRefusal | null => {
+  const topLevelIds = treeStore.getTopLevelIds(store, nodeIds);
+  const refuse = (reason: ActionRefusal['reason'], message: string): ActionRefusal => ({ action: 'drop', nodeIds: topLevelIds, targetNodeId, position, reason, message });
+
+  if (targetNodeId !== null && (!store.byId[targetNodeId] || topLevelIds.some(nodeId => nodeId === targetNodeId || treeStore.isAncestor(store, nodeId, targetNodeId)))) {
+    return refuse('invalid-target', "A node can't be dropped onto itself or into its own descendants");
+  }
+
+  const dragRefusal = checkDrag(store, rules, topLevelIds);
+  if (dragRefusal) return refuse('can-drag', dragRefusal.message);
+
+  const violation = rules.schema && checkSubtreesAt(store, rules.schema, topLevelIds.map(nodeId => collectSubtree(store, nodeId)), targetNodeId, position);
+  if (violation) return refuse(violation.reason, violation.message);
+
+  if (rules.canDrop) {
+    const dragged = topLevelIds.map(nodeId => treeStore.getTreeNode(store, nodeId));
+    const target = targetNodeId === null ? null : treeStore.getTreeNode(store, targetNodeId);
+    if (!rules.canDrop(dragged, target, position)) return refuse('can-drop', 'Dropping here is not allowed');
+  }
+  return null;
+};
+
+// Checks adding copies of nodes, subtrees included, at a drop target (null for the root), as paste and duplicate do.
+// Unlike a move, a copy may go inside the node it was copied from.
+export const checkCopy = (store: TreeStore, rules: TreeRules, nodes: ITreeNode[], targetNodeId: string | null, position: DropPosition): ActionRefusal | null => {
+  const refuse = (reason: ActionRefusal['reason'], message: string): ActionRefusal => ({ action: 'add', nodeIds: [], targetNodeId, position, reason, message });
+  if (targetNodeId !== null && !store.byId[targetNodeId]) return refuse('invalid-target', 'The target node no longer exists');
+
+  const violation = rules.schema && checkSubtreesAt(store, rules.schema, nodes.map(node => collectNestedSubtree(node)), targetNodeId, position);
+  if (violation) return refuse(violation.reason, violation.message);
+
+  if (rules.canDrop) {
+    const target = targetNodeId === null ? null : treeStore.getTreeNode(store, targetNodeId);
+    if (!rules.canDrop(nodes, target, position)) return refuse('can-drop', 'Pasting here is not allowed');
+  }
+  return null;
+};
+
+export const checkAdd = (store: TreeStore, rules: TreeRules, parentId: string | null, nodeType: string | undefined): ActionRefusal | null => {
+  if (!rules.schema) return null;
+  const parent = parentId === null ? null : store.byId[parentId] ?? null;
+  const level = parentId === null ? 0 : treeStore.getLevel(store, parentId) + 1;
+  const violation = checkPlacement(rules.schema, nodeType, parent, level);
+  return violation ? { action: 'add', nodeIds: [], targetNodeId: parentId, ...violation } : null;
+};
+
+export const checkRename = (store: TreeStore, rules: TreeRules, nodeId: string): ActionRefusal | null => {
+  const node = store.byId[nodeId];
+  if (!node || !rules.canRename || rules.canRename(treeStore.getTreeNode(store, nodeId))) return null;
+  return { action: 'rename', nodeIds: [nodeId], reason: 'can-rename', message: `${describe(node)} can't be renamed` };
+};
+
+export const checkRemove = (store: TreeStore, rules: TreeRules, nodeIds: string[]): ActionRefusal | null => {
+  const lockedId = nodeIds.find(nodeId => store.byId[nodeId] && rules.canRemove && !rules.canRemove(treeStore.getTreeNode(store, nodeId)));
+  if (!lockedId) return null;
+  return { action: 'remove', nodeIds, reason: 'can-remove', message: `${describe(store.byId[lockedId])} can't be deleted` };
+};
+
+// Checks a name for a new node under parentId (null for root), or a new name for nodeId; empty names are always refused
+export const checkName = (store: TreeStore, rules: TreeRules, parentId: string | null, name: string, nodeId?: string): ActionRefusal | null => {
+  const refuse = (message: string): ActionRefusal => ({
+    action: nodeId ? 'rename' : 'add',
+    nodeIds: nodeId ? [nodeId] : [],
+    targetNodeId: parentId,
+    reason: 'invalid-name',
+    message,
+  });
+  const trimmedName = name.trim();
+  if (trimmedName === '') return refuse("The name can't be empty");
+  if (!rules.validateName) return null;
+  const parent = parentId !== null && treeStore.getNode(store, parentId) ? treeStore.getTreeNode(store, parentId) : null;
+  const siblings = treeStore.getChildIds(store, parentId).filter(childId => childId !== nodeId).map(childId => treeStore.getTreeNode(store, childId));
+  const message = rules.validateName(trimmedName, parent, siblings);
+  return message ? refuse(message) : null;
+};
+
+// A name for a copy under parentId that validateName accepts: the name itself if it is free, then "name (copy)",
+// "name (copy 2)" and so on. Falls back to the name itself if the validator refuses every candidate.
+export const getCopyName = (store: TreeStore, rules: TreeRules, parentId: string | null, name: string): string => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const candidate = attempt === 0 ? name : attempt === 1 ? `${name} (copy)` : `${name} (copy ${attempt})`;
+    if (!checkName(store, rules, parentId, candidate)) return candidate;
+  }
+  return name;
+};
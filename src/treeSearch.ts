@@ -0,0 +1,80 @@
+// src/treeSearch.ts
+import { TreeData, TreeFilter } from './types';
+
+// Helper to build the RegExp for a regex filter, or null if the pattern doesn't compile
+const compileRegex = (filter: TreeFilter): RegExp | null => {
+  try {
+    return new RegExp(filter.query, filter.caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+};
+
+export const isValidFilter = (filter: TreeFilter): boolean => {
+  return filter.mode !== 'regex' || compileRegex(filter) !== null;
+};
+
+// Returns the indexes of the matched characters in name, or null if the name doesn't match
+export const matchName = (name: string, filter: TreeFilter): number[] | null => {
+  if (!filter.query) return null;
+  const range = (start: number, length: number) => Array.from({ length }, (_, i) => start + i);
+
+  switch (filter.mode ?? 'substring') {
+    case 'regex': {
+      const regex = compileRegex(filter);
+      if (!regex) return null;
+      // Every non-empty match counts; zero-length matches (e.g. /^/) would highlight nothing
+      const indexes = Array.from(name.matchAll(regex)).flatMap(match => range(match.index ?? 0, match[0].length));
+      return indexes.length > 0 ? indexes : null;
+    }
+    case 'fuzzy': {
+      // The query's characters must appear in order, though not necessarily next to each other
+      const haystack = filter.caseSensitive ? name : name.toLowerCase();
+      const needle = filter.caseSensitive ? filter.query : filter.query.toLowerCase();
+      const indexes: number[] = [];
+      let position = 0;
+      for (const character of needle) {
+        const index = haystack.indexOf(character, position);
+        if (index === -1) return null;
+        indexes.push(index);
+        position = index + 1;
+      }
+      return indexes;
+    }
+    case 'substring': {
+      const haystack = filter.caseSensitive ? name : name.toLowerCase();
+      const needle = filter.caseSensitive ? filter.query : filter.query.toLowerCase();
+      const index = haystack.indexOf(needle);
+      return index === -1 ? null : range(index, needle.length);
+    }
+  }
+};
+
+// Finds every loaded node whose name matches, in document order (collapsed branches included)
+export const findMatches = (tree: TreeData, filter: TreeFilter): Map<string, number[]> => {
+  const matches = new Map<string, number[]>();
+  const visit = (nodes: TreeData) => {
+    nodes.forEach(node => {
+      const indexes = matchName(node.name, filter);
+      if (indexes) matches.set(node.id, indexes);
+      if (Array.isArray(node.children)) visit(node.children);
+    });
+  };
+  visit(tree);
+  return matches;
+};
+
+// Keeps only matching nodes and their ancestors. Ancestors are shown expanded, except those the user
+// collapsed during the search; the real isExpanded values are untouched, so clearing the filter restores them.
+export const filterTree = (tree: TreeData, matches: ReadonlyMap<string, number[]>, collapsedIds: ReadonlySet<string>): TreeData => {
+  return tree.flatMap(node => {
+    const children = Array.isArray(node.children) ? filterTree(node.children, matches, collapsedIds) : [];
+    if (!matches.has(node.id) && children.length === 0) return [];
+    return [{
+      ...node,
+      children: node.children === true ? true : children,
+      hasChildren: node.children === true || children.length > 0,
+      isExpanded: children.length > 0 && !collapsedIds.has(node.id),
+    }];
+  });
+};
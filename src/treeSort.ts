@@ -0,0 +1,92 @@
+// src/treeSort.ts
+import { ITreeNode, NodeComparator, SortDirection, TreeColumn, TreeData, TreeSort } from './types';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+
+const alphaCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Sorting only changes what is displayed; the store keeps the manual order underneath, so a branch that
+// goes back to 'none' shows it again. Unchanged subtrees keep their identity between renders.
+const sortedNodeCache = new WeakMap<ITreeNode, { sort: TreeSort; foldersFirst: boolean; node: ITreeNode }>();
+
+// Helper to tell folders from leaves: typed as a folder, or with children (loaded or not)
+const isFolder = (node: ITreeNode) => {
+  return node.type === 'folder' || node.children === true || (Array.isArray(node.children) && node.children.length > 0) || !!node.hasChildren;
+};
+
+// Helper to compare two node lists, order included
+const isSameNodeList = (a: TreeData, b: TreeData) => a.length === b.length && a.every((node, index) => node === b[index]);
+
+// The comparator for a sort, or null for 'none'. Ties keep the manual order.
+export const getComparator = (sort: TreeSort, foldersFirst: boolean): NodeComparator | null => {
+  const compareNames: NodeComparator | null = sort === 'none' ? null
+    : sort === 'alpha' ? (a, b) => alphaCollator.compare(a.name, b.name)
+    : sort === 'natural' ? (a, b) => naturalCollator.compare(a.name, b.name)
+    : sort;
+  if (!compareNames || !foldersFirst) return compareNames;
+  return (a, b) => Number(isFolder(b)) - Number(isFolder(a)) || compareNames(a, b);
+};
+
+// What a tree-table column shows for a node when it has no render function: the value under its key in the node's data
+export const getColumnValue = (node: ITreeNode, key: string): unknown => (node.data as Record<string, unknown> | undefined)?.[key];
+
+// Helper to compare two column values: numbers and dates by value, anything else as text in natural order
+const compareColumnValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  return naturalCollator.compare(String(a), String(b));
+};
+
+// Orders siblings by a tree-table column, for use as a TreeSort. Without a compare function, nodes that have no
+// value go last in either direction.
+export const getColumnComparator = (column: TreeColumn, direction: SortDirection): NodeComparator => {
+  const sign = direction === 'ascending' ? 1 : -1;
+  const { compare } = column;
+  if (compare) return (a, b) => sign * compare(a, b);
+  return (a, b) => {
+    const aValue = getColumnValue(a, column.key);
+    const bValue = getColumnValue(b, column.key);
+    if (aValue == null || bValue == null) return Number(aValue == null) - Number(bValue == null);
+    return sign * compareColumnValues(aValue, bValue);
+  };
+};
+
+// The sort that applies to the children of parentId (null for the root): the nearest `sort` field on the
+// parent or its ancestors, else the tree-wide sort
+export const getChildSort = (store: TreeStore, parentId: string | null, sort: TreeSort): TreeSort => {
+  const path = parentId === null ? [] : treeStore.getPath(store, parentId) ?? [];
+  const sortedAncestor = [...path].reverse().find(node => node.sort !== undefined);
+  return sortedAncestor?.sort ?? sort;
+};
+
+// Helper to sort one node's loaded children (and theirs) under the sort inherited from its parent
+const sortNode = (node: ITreeNode, inheritedSort: TreeSort, foldersFirst: boolean): ITreeNode => {
+  if (!Array.isArray(node.children)) return node;
+  const cached = sortedNodeCache.get(node);
+  if (cached && cached.sort === inheritedSort && cached.foldersFirst === foldersFirst) return cached.node;
+
+  const children = sortTree(node.children, node.sort ?? inheritedSort, foldersFirst);
+  const sortedNode = children === node.children ? node : { ...node, children };
+  sortedNodeCache.set(node, { sort: inheritedSort, foldersFirst, node: sortedNode });
+  return sortedNode;
+};
+
+// Orders the nodes, and every loaded branch below them, for display. `sort` applies to these nodes and to
+// any branch without a `sort` field of its own; returns the same array if nothing moved.
+export const sortTree = (tree: TreeData, sort: TreeSort, foldersFirst: boolean): TreeData => {
+  const comparator = getComparator(sort, foldersFirst);
+  const nodes = tree.map(node => sortNode(node, sort, foldersFirst));
+  const sortedNodes = comparator ? nodes.sort(comparator) : nodes; // Array.prototype.sort is stable
+  return isSameNodeList(sortedNodes, tree) ? tree : sortedNodes;
+};
+
+// Stamps every node with its index among its siblings, so the manual order survives storage that doesn't
+// keep arrays in order. The store reads it back when the nodes are loaded, imported or restored.
+export const withManualOrder = (tree: TreeData): TreeData => {
+  return tree.map((node, order) => ({
+    ...node,
+    order,
+    ...(Array.isArray(node.children) ? { children: withManualOrder(node.children) } : {}),
+  }));
+};
@@ -0,0 +1,309 @@
+// src/treeStore.ts
+import { ITreeNode, TreeData, DropPosition, NodePosition } from './types';
+
+// A node record in the normalized store: children are referenced by id instead of nested
+export interface StoreNode extends Omit<ITreeNode, 'children'> {
+  childIds: string[] | true; // true means "has children, but not loaded yet"
+}
+
+export interface TreeStore {
+  rootIds: string[];
+  byId: Record<string, StoreNode>;
+}
+
+// Every mutation replaces the changed records and all of their ancestors, so a record that is unchanged
+// guarantees its whole subtree is unchanged. That lets both adapters reuse previous conversions by identity.
+const nestedNodeCache = new WeakMap<StoreNode, ITreeNode>();
+const recordCache = new WeakMap<ITreeNode, StoreNode>();
+
+// Puts siblings in their manual order when every one of them carries an `order` field (e.g. when they
+// come from storage that doesn't keep arrays in order); returns the same array if they already are
+export const arrangeByOrder = (nodes: TreeData): TreeData => {
+  if (!nodes.every(node => typeof node.order === 'number')) return nodes;
+  const arranged = [...nodes].sort((a, b) => (a.order as number) - (b.order as number));
+  return arranged.every((node, index) => node === nodes[index]) ? nodes : arranged;
+};
+
+// Helper to add nested nodes (and all their descendants) to a mutable byId map; returns their ids in order.
+// The `order` field is consumed here: after that, a node's place in its parent's childIds is its order.
+const addNestedNodes = (byId: Record<string, StoreNode>, nodes: TreeData, parentId: string | null): string[] => {
+  return arrangeByOrder(nodes).map(node => {
+    let record = recordCache.get(node);
+    if (!record || record.parentId !== parentId) {
+      const { children, order, ...fields } = node;
+      const arrangedChildren = Array.isArray(children) ? arrangeByOrder(children) : children;
+      record = {
+        ...fields,
+        parentId,
+        childIds: arrangedChildren === true ? true : (arrangedChildren ?? []).map(child => child.id),
+      };
+      // A node with an order field (or rearranged children) differs from its record, so it can't stand in for it
+      if (node.parentId === parentId && order === undefined && arrangedChildren === children) {
+        recordCache.set(node, record);
+        nestedNodeCache.set(record, node);
+      }
+    }
+    byId[node.id] = record;
+    if (Array.isArray(node.children)) {
+      addNestedNodes(byId, node.children, node.id);
+    }
+    return node.id;
+  });
+};
+
+// Helper to replace every ancestor record of a (mutable) byId map, starting from parentId
+const touchAncestors = (byId: Record<string, StoreNode>, parentId: string | null) => {
+  let currentId = parentId;
+  while (currentId !== null && byId[currentId]) {
+    byId[currentId] = { ...byId[currentId] };
+    currentId = byId[currentId].parentId;
+  }
+};
+
+// Helper to collect a node's id and the ids of all its loaded descendants
+const collectSubtreeIds = (byId: Record<string, StoreNode>, nodeId: string): string[] => {
+  const record = byId[nodeId];
+  if (!record) return [];
+  const childIds = Array.isArray(record.childIds) ? record.childIds : [];
+  return [nodeId, ...childIds.flatMap(childId => collectSubtreeIds(byId, childId))];
+};
+
+// Helper to replace the ordered child ids of a parent in a mutable byId map; returns the (possibly new) root ids
+const setChildIdList = (byId: Record<string, StoreNode>, rootIds: string[], parentId: string | null, childIds: string[]): string[] => {
+  if (parentId === null) return childIds;
+  byId[parentId] = { ...byId[parentId], childIds, hasChildren: childIds.length > 0 || byId[parentId].childrenCursor !== undefined };
+  touchAncestors(byId, byId[parentId].parentId);
+  return rootIds;
+};
+
+// Helper to record where a node's next page of children starts (no cursor: all are loaded) in a mutable byId map
+const setChildrenCursor = (byId: Record<string, StoreNode>, nodeId: string, nextCursor?: string | null, remainingCount?: number) => {
+  const { childrenCursor, remainingChildCount, ...record } = byId[nodeId];
+  byId[nodeId] = {
+    ...record,
+    ...(nextCursor ? { childrenCursor: nextCursor } : {}),
+    ...(nextCursor && remainingCount !== undefined ? { remainingChildCount: remainingCount } : {}),
+    hasChildren: (Array.isArray(record.childIds) && record.childIds.length > 0) || !!nextCursor,
+  };
+};
+
+// --- Adapters ---
+
+export const createStore = (tree: TreeData): TreeStore => {
+  const byId: Record<string, StoreNode> = {};
+  const rootIds = addNestedNodes(byId, tree, null);
+  return { rootIds, byId };
+};
+
+// Converts a single node (with its loaded subtree) back to the nested ITreeNode shape
+export const getTreeNode = (store: TreeStore, nodeId: string): ITreeNode => {
+  const record = store.byId[nodeId];
+  const cached = nestedNodeCache.get(record);
+  if (cached) return cached;
+
+  const { childIds, ...fields } = record;
+  const node: ITreeNode = {
+    ...fields,
+    children: childIds === true ? true : childIds.map(childId => getTreeNode(store, childId)),
+  };
+  nestedNodeCache.set(record, node);
+  recordCache.set(node, record);
+  return node;
+};
+
+// Converts back to the nested TreeData shape; unchanged subtrees keep their previous object identity
+export const toTree = (store: TreeStore): TreeData => {
+  return store.rootIds.map(rootId => getTreeNode(store, rootId));
+};
+
+// --- Queries ---
+
+export const getNode = (store: TreeStore, nodeId: string): StoreNode | undefined => store.byId[nodeId];
+
+export const getChildIds = (store: TreeStore, parentId: string | null): string[] => {
+  if (parentId === null) return store.rootIds;
+  const childIds = store.byId[parentId]?.childIds;
+  return Array.isArray(childIds) ? childIds : [];
+};
+
+// Path from a root down to the node (inclusive), or null if the node isn't in the store
+export const getPath = (store: TreeStore, nodeId: string): StoreNode[] | null => {
+  const path: StoreNode[] = [];
+  let current = store.byId[nodeId];
+  while (current) {
+    path.unshift(current);
+    current = current.parentId === null ? undefined : store.byId[current.parentId];
+  }
+  return path.length > 0 ? path : null;
+};
+
+// The node's parent and its index among that parent's children
+export const getPosition = (store: TreeStore, nodeId: string): NodePosition | null => {
+  const record = store.byId[nodeId];
+  if (!record) return null;
+  return { parentId: record.parentId, index: getChildIds(store, record.parentId).indexOf(nodeId) };
+};
+
+export const getLevel = (store: TreeStore, nodeId: string): number => (getPath(store, nodeId)?.length ?? 0) - 1;
+
+// True if ancestorId is a strict ancestor of descendantId, regardless of expansion state
+export const isAncestor = (store: TreeStore, ancestorId: string, descendantId: string): boolean => {
+  let current = store.byId[descendantId];
+  while (current && current.parentId !== null) {
+    if (current.parentId === ancestorId) return true;
+    current = store.byId[current.parentId];
+  }
+  return false;
+};
+
+// Compares two nodes by their position in a full depth-first traversal (negative if a comes first)
+export const compareDocumentOrder = (store: TreeStore, aId: string, bId: string): number => {
+  const indexPath = (nodeId: string) => (getPath(store, nodeId) ?? []).map(node => getChildIds(store, node.parentId).indexOf(node.id));
+  const aPath = indexPath(aId);
+  const bPath = indexPath(bId);
+  for (let i = 0; i < Math.min(aPath.length, bPath.length); i++) {
+    if (aPath[i] !== bPath[i]) return aPath[i] - bPath[i];
+  }
+  return aPath.length - bPath.length; // An ancestor comes before its descendants
+};
+
+// A node's id and the ids of its loaded descendants in document order; for null, every loaded node in the tree
+export const getSubtreeIds = (store: TreeStore, nodeId: string | null): string[] => {
+  return nodeId === null ? store.rootIds.flatMap(rootId => collectSubtreeIds(store.byId, rootId)) : collectSubtreeIds(store.byId, nodeId);
+};
+
+// Whether a node can be expanded: it has (or may have, while unloaded) children
+export const isExpandable = (node: StoreNode): boolean => node.hasChildren ?? (node.childIds === true || node.childIds.length > 0);
+
+// Drops unknown ids and ids already covered by an ancestor in the list, and sorts the rest in document order
+export const getTopLevelIds = (store: TreeStore, nodeIds: string[]): string[] => {
+  const idSet = new Set(nodeIds);
+  return Array.from(idSet)
+    .filter(nodeId => store.byId[nodeId] && !nodeIds.some(otherId => otherId !== nodeId && isAncestor(store, otherId, nodeId)))
+    .sort((a, b) => compareDocumentOrder(store, a, b));
+};
+
+// --- Mutations ---
+
+export const updateNode = (store: TreeStore, nodeId: string, updater: (node: StoreNode) => StoreNode): TreeStore => {
+  const record = store.byId[nodeId];
+  if (!record) return store;
+  const byId = { ...store.byId, [nodeId]: updater(record) };
+  touchAncestors(byId, record.parentId);
+  return { ...store, byId };
+};
+
+// Expands or collapses many nodes in one step; nodes already in that state are left alone
+export const setExpanded = (store: TreeStore, nodeIds: string[], isExpanded: boolean): TreeStore => {
+  const changedIds = nodeIds.filter(nodeId => store.byId[nodeId] && (store.byId[nodeId].isExpanded ?? false) !== isExpanded);
+  if (changedIds.length === 0) return store;
+  const byId = { ...store.byId };
+  changedIds.forEach(nodeId => {
+    byId[nodeId] = { ...byId[nodeId], isExpanded };
+    touchAncestors(byId, byId[nodeId].parentId);
+  });
+  return { ...store, byId };
+};
+
+// Inserts nested nodes under a parent (null for root) at the given index, defaulting to the end
+export const insertNodes = (store: TreeStore, parentId: string | null, nodes: TreeData, index?: number): TreeStore => {
+  if (parentId !== null && !store.byId[parentId]) return store;
+  const byId = { ...store.byId };
+  const newIds = addNestedNodes(byId, nodes, parentId);
+  const siblingIds = [...getChildIds(store, parentId)];
+  siblingIds.splice(index ?? siblingIds.length, 0, ...newIds);
+  const rootIds = setChildIdList(byId, store.rootIds, parentId, siblingIds);
+  return { rootIds, byId };
+};
+
+export const removeNode = (store: TreeStore, nodeId: string): TreeStore => {
+  const record = store.byId[nodeId];
+  if (!record) return store;
+  const byId = { ...store.byId };
+  collectSubtreeIds(byId, nodeId).forEach(id => delete byId[id]);
+  const siblingIds = getChildIds(store, record.parentId).filter(id => id !== nodeId);
+  const rootIds = setChildIdList(byId, store.rootIds, record.parentId, siblingIds);
+  return { rootIds, byId };
+};
+
+// Replaces a node's children, e.g. with the result of a lazy load; a cursor marks them as the first of several pages
+export const setChildren = (store: TreeStore, nodeId: string, children: TreeData, nextCursor?: string | null, remainingCount?: number): TreeStore => {
+  const record = store.byId[nodeId];
+  if (!record) return store;
+  const byId = { ...store.byId };
+  collectSubtreeIds(byId, nodeId).slice(1).forEach(id => delete byId[id]);
+  const childIds = addNestedNodes(byId, children, nodeId);
+  const rootIds = setChildIdList(byId, store.rootIds, nodeId, childIds);
+  setChildrenCursor(byId, nodeId, nextCursor, remainingCount);
+  return { rootIds, byId };
+};
+
+// Appends a further page of children after the loaded ones. Nodes already in the tree are skipped, so a node
+// dropped into a partially loaded parent isn't duplicated when the server later returns it in a page.
+export const appendChildren = (store: TreeStore, nodeId: string, children: TreeData, nextCursor?: string | null, remainingCount?: number): TreeStore => {
+  const record = store.byId[nodeId];
+  if (!record || !Array.isArray(record.childIds)) return store;
+  const byId = { ...store.byId };
+  const newIds = addNestedNodes(byId, children.filter(child => !store.byId[child.id]), nodeId);
+  const rootIds = setChildIdList(byId, store.rootIds, nodeId, [...record.childIds, ...newIds]);
+  setChildrenCursor(byId, nodeId, nextCursor, remainingCount);
+  return { rootIds, byId };
+};
+
+// Gives a node a new id (e.g. the one a server assigned to it), keeping its place and its children
+export const replaceId = (store: TreeStore, nodeId: string, newId: string): TreeStore => {
+  const record = store.byId[nodeId];
+  if (!record || store.byId[newId]) return store;
+  const byId = { ...store.byId };
+  delete byId[nodeId];
+  byId[newId] = { ...record, id: newId };
+  if (Array.isArray(record.childIds)) {
+    record.childIds.forEach(childId => { byId[childId] = { ...byId[childId], parentId: newId }; });
+  }
+  const siblingIds = getChildIds(store, record.parentId).map(id => (id === nodeId ? newId : id));
+  const rootIds = setChildIdList(byId, store.rootIds, record.parentId, siblingIds);
+  return { rootIds, byId };
+};
+
+// Resolves where a node dropped relative to a target ends up: its new parent and its index among the
+// siblings once it has been detached. Returns null for an invalid move (unknown node, onto itself or into its own descendant).
+export const getMoveDestination = (store: TreeStore, nodeId: string, targetNodeId: string | null, dropPosition: DropPosition): NodePosition | null => {
+  if (!store.byId[nodeId] || nodeId === targetNodeId) return null;
+  const siblingIdsWithout = (parentId: string | null) => getChildIds(store, parentId).filter(id => id !== nodeId);
+
+  if (targetNodeId === null) {
+    return { parentId: null, index: siblingIdsWithout(null).length }; // Root-level drops append to the end of the root
+  }
+  if (!store.byId[targetNodeId] || isAncestor(store, nodeId, targetNodeId)) return null;
+  if (dropPosition === 'child') {
+    return { parentId: targetNodeId, index: siblingIdsWithout(targetNodeId).length };
+  }
+  const parentId = store.byId[targetNodeId].parentId;
+  const targetIndex = siblingIdsWithout(parentId).indexOf(targetNodeId);
+  return { parentId, index: dropPosition === 'above' ? targetIndex : targetIndex + 1 };
+};
+
+// Moves a node to an index among the children of a parent (null for root); same store if the move is invalid
+export const moveNodeTo = (store: TreeStore, nodeId: string, parentId: string | null, index: number): TreeStore => {
+  const record = store.byId[nodeId];
+  if (!record) return store;
+  if (parentId !== null && (!store.byId[parentId] || parentId === nodeId || isAncestor(store, nodeId, parentId))) return store;
+
+  // Detach from the old parent, then attach under the new one (byId is mutated in place throughout)
+  const byId = { ...store.byId };
+  let rootIds = setChildIdList(byId, store.rootIds, record.parentId, getChildIds(store, record.parentId).filter(id => id !== nodeId));
+  byId[nodeId] = { ...record, parentId };
+  const siblingIds = [...getChildIds({ rootIds, byId }, parentId)];
+  siblingIds.splice(index, 0, nodeId);
+  rootIds = setChildIdList(byId, rootIds, parentId, siblingIds);
+  return { rootIds, byId };
+};
+
+// Moves a node next to (or into) a target node, or to the end of the root list when targetNodeId is null
+export const moveNode = (store: TreeStore, nodeId: string, targetNodeId: string | null, dropPosition: DropPosition): TreeStore => {
+  const destination = getMoveDestination(store, nodeId, targetNodeId, dropPosition);
+  if (!destination) return store;
+  const movedStore = moveNodeTo(store, nodeId, destination.parentId, destination.index);
+  if (dropPosition !== 'child' || targetNodeId === null) return movedStore;
+  return updateNode(movedStore, targetNodeId, node => ({ ...node, isExpanded: true })); // Auto-expand parent when dropping a child
+};
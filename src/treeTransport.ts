@@ -0,0 +1,43 @@
+// src/treeTransport.ts
+import { TreeOperation, TreeTransport } from './types';
+
+// Reference transports for a TreeView's `transport` prop. Any channel that delivers every operation to every
+// other replica at least once will do (a WebSocket relay, say); order between senders doesn't matter.
+
+// Connected in-memory transports, one per replica, e.g. to run two TreeViews side by side. Delivery is
+// asynchronous like a real network; latency (ms) makes concurrent edits easy to try out.
+export const createMemoryChannel = (count: number, latency = 0): TreeTransport[] => {
+  const listeners: Set<(operations: TreeOperation[]) => void>[] = Array.from({ length: count }, () => new Set());
+  return listeners.map((ownListeners): TreeTransport => ({
+    send: operations => {
+      const message = JSON.stringify(operations); // Nothing shared by reference, as over a wire
+      listeners.filter(otherListeners => otherListeners !== ownListeners).forEach(otherListeners => {
+        window.setTimeout(() => otherListeners.forEach(listener => listener(JSON.parse(message))), latency);
+      });
+    },
+    subscribe: listener => {
+      ownListeners.add(listener);
+      return () => {
+        ownListeners.delete(listener);
+      };
+    },
+  }));
+};
+
+// Shares operations between tabs of the same origin. Node ids must be unique across the tabs too: the ids
+// TreeView gives new nodes carry a tag of the page that made them, and ids of your own should do the same.
+export const createBroadcastChannelTransport = (channelName: string): TreeTransport & { close: () => void } => {
+  const channel = new BroadcastChannel(channelName);
+  const listeners = new Set<(operations: TreeOperation[]) => void>();
+  channel.onmessage = (event: MessageEvent<TreeOperation[]>) => listeners.forEach(listener => listener(event.data));
+  return {
+    send: operations => channel.postMessage(operations),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => channel.close(),
+  };
+};
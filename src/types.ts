@@ -1,16 +1,336 @@
 // src/types.ts
-export interface ITreeNode {
+import { ReactNode } from 'react';
+
+// T is the type of the optional user payload in `data`
+export interface ITreeNode<T = unknown> {
   id: string;
   name: string;
-  children?: ITreeNode[] | true; // true means "has children, but not loaded yet"
+  children?: ITreeNode<T>[] | true; // true means "has children, but not loaded yet"
   isExpanded?: boolean;
   hasChildren?: boolean; // Useful to show expand icon even if children are not loaded
   parentId: string | null; // Keep track of parent for easier updates
+  disabled?: boolean; // In checkbox mode, the node's checkbox can't be toggled (directly or through its parent)
+  checkable?: boolean; // false hides the checkbox and leaves the node out of its parent's checked state
+  type?: string; // Picks the default icon and is looked up in TreeView's schema, e.g. 'folder' or 'file'
+  childrenCursor?: string; // Where the next page of children starts, while only some of them are loaded
+  remainingChildCount?: number; // Children not loaded yet, when the loader reports it
+  sort?: SortMode; // How this node's children are ordered; inherited by the branch below unless overridden
+  order?: number; // Position among its siblings in the manual order; written on export and save, read on load and import
+  data?: T; // User payload; travels with the node through moves, undo, persistence and JSON import/export
 }
 
-export type TreeData = ITreeNode[];
+export type TreeData<T = unknown> = ITreeNode<T>[];
+
+// 'none' keeps the manual order (insertion and drops); 'natural' compares the numbers in names by value, so "file 2" comes before "file 10"
+export type SortMode = 'none' | 'alpha' | 'natural';
+
+export type NodeComparator<T = unknown> = (a: ITreeNode<T>, b: ITreeNode<T>) => number;
+
+export type TreeSort<T = unknown> = SortMode | NodeComparator<T>;
+
+// The row state passed to render props
+export interface NodeRenderState {
+  expanded: boolean;
+  loading: boolean; // Children are being loaded
+  selected: boolean;
+  dragging: boolean; // The node is part of the current drag
+}
+
+export type NodeRenderer<T = unknown> = (node: ITreeNode<T>, level: number, state: NodeRenderState) => ReactNode;
+
+// A data column in tree-table mode; the tree itself (indentation, toggle, icon and name) always comes first, in a column of its own
+export interface TreeColumn<T = unknown> {
+  key: string; // The field of the node's `data` the column shows and sorts by, unless render and compare say otherwise
+  header: ReactNode;
+  width?: number; // Initial width in px; users can resize the column from its header
+  render?: NodeRenderer<T>; // Cell content; defaults to the value under key
+  sortable?: boolean; // Clicking the header sorts siblings by this column, again reverses it, a third time goes back to the tree's sort
+  compare?: NodeComparator<T>; // Ascending order of a sortable column; defaults to comparing the values under key
+}
+
+// Matches the aria-sort values of a column header
+export type SortDirection = 'ascending' | 'descending';
+
+// The column the rows of a tree table are sorted by, within each set of siblings
+export interface ColumnSort {
+  key: string;
+  direction: SortDirection;
+}
+
+// An entry in a row's context menu
+export type ContextMenuItem =
+  | { type?: 'action'; id: string; label: string; onSelect: () => void; disabled?: boolean; icon?: ReactNode }
+  | { type: 'separator'; id: string };
+
+// Builds the context menu of a row from the built-in entries; return defaultItems to keep them as they are
+export type ContextMenuItems<T = unknown> = (node: ITreeNode<T>, defaultItems: ContextMenuItem[]) => ContextMenuItem[];
+
+export type SearchMode = 'substring' | 'regex' | 'fuzzy';
+
+export interface TreeFilter {
+  query: string;
+  mode?: SearchMode; // Defaults to 'substring'
+  caseSensitive?: boolean;
+}
+
+// Server-side search for nodes in unloaded subtrees: resolves to id paths from a root down to each match
+export type SearchNodes = (query: string, options: Pick<LoadChildrenOptions, 'signal'>) => Promise<string[][]>;
+
+// Finds where a node that hasn't been loaded yet sits: resolves to the ids from its root down to the node itself, or null if it doesn't exist
+export type ResolveNodePath = (nodeId: string, options: Pick<LoadChildrenOptions, 'signal'>) => Promise<string[] | null>;
+
+// Modifier keys held while selecting a node: toggle (Ctrl/Cmd) and range (Shift)
+export interface SelectionModifiers {
+  toggle?: boolean;
+  range?: boolean;
+}
+
+// A node as it appears in the flattened list of rendered rows (expanded branches only)
+export interface VisibleNode {
+  node: ITreeNode;
+  level: number;
+  posInSet: number; // 1-based position among siblings
+  setSize: number;
+}
+
+export type CheckedState = 'checked' | 'unchecked' | 'indeterminate';
+
+// What onCheckedChange reports: every checked leaf, or only the top-most fully checked nodes
+export type CheckedStrategy = 'leaves' | 'topmost';
+
+export type DropPosition = 'above' | 'below' | 'child';
 
 export interface DragItem {
   id: string;
   parentId: string | null;
+  ids?: string[]; // Every node being dragged, in document order, when a multi-selection is dragged
+}
+
+// Dragging with Ctrl (Option on macOS) held copies instead of moving
+export type DragMode = 'move' | 'copy';
+
+// 'html5' uses the browser's native drag events; 'pointer' uses Pointer Events, which also work on touch screens
+export type DragBackend = 'html5' | 'pointer';
+
+// Where a pointer drag would drop right now; nodeId is null over the empty part of the tree (a root-level drop)
+export interface DropTarget {
+  nodeId: string | null;
+  position: DropPosition;
+  isAllowed: boolean;
+}
+
+// Where nodes dragged from another tree are going, and whether they move or are copied
+export interface NodeTransferInfo {
+  mode: DragMode;
+  targetNodeId: string | null; // Drop target; null for the root
+  position: DropPosition;
+}
+
+// Changes the nodes handed to (or received from) another TreeView, e.g. to retype or strip them; null refuses the drop
+export type NodeTransfer<T = unknown> = (nodes: ITreeNode<T>[], info: NodeTransferInfo) => ITreeNode<T>[] | null;
+
+// What a drop from outside the page (files from the OS, text from another app) carried
+export interface ExternalDrop {
+  files: File[];
+  text: string; // The text/plain data, or '' if there was none
+  data: Record<string, string>; // Every string format that was dropped, by MIME type
+}
+
+// Turns an external drop into nodes to add at the drop target; null or [] ignores it
+export type ExternalDropHandler<T = unknown> = (drop: ExternalDrop, target: Omit<NodeTransferInfo, 'mode'>) => TreeData<T> | null | Promise<TreeData<T> | null>;
+
+export interface NodeTypeRule {
+  allowedChildTypes?: string[]; // Omitted allows any child; [] makes the type a leaf (e.g. a file)
+  maxDepth?: number; // Deepest level nodes of this type may sit at (0 = root)
+}
+
+// Declarative placement rules for drops, keyboard moves and new nodes
+export interface TreeSchema {
+  types: Record<string, NodeTypeRule>;
+  rootTypes?: string[]; // Types allowed at the root; omitted allows any
+  maxDepth?: number; // Deepest level any node may sit at (0 = root)
+}
+
+// Checks a trimmed, non-empty name for a node under parent (null for root); siblings exclude the node being renamed.
+// Returns an error message, or null to accept the name.
+export type NameValidator<T = unknown> = (name: string, parent: ITreeNode<T> | null, siblings: ITreeNode<T>[]) => string | null;
+
+export type RefusalReason =
+  | 'invalid-target' // Onto itself or into its own descendant
+  | 'child-type' // The schema doesn't allow the node type there
+  | 'max-depth'
+  | 'can-drag'
+  | 'can-drop'
+  | 'can-rename'
+  | 'can-remove'
+  | 'invalid-name'; // Empty, or rejected by validateName
+
+// Passed to onActionRefused when a rule blocks a user action
+export interface ActionRefusal {
+  action: 'drag' | 'drop' | 'add' | 'rename' | 'remove';
+  nodeIds: string[]; // The nodes acted on (empty for add)
+  targetNodeId?: string | null; // Drop target or new parent; null for the root
+  position?: DropPosition;
+  reason: RefusalReason;
+  message: string; // Human-readable, suitable for a toast
+}
+
+// Passed to onError for a failure that has no row of its own to be shown on
+export interface TreeViewError {
+  source: 'reveal' | 'restore' | 'save'; // Resolving the path of a node to reveal, or reading or saving persisted state
+  nodeId?: string; // The node involved, if any
+  message: string; // Human-readable, suitable for a toast
+  error: unknown; // What was thrown, for logging; null when nothing was (e.g. persisted state of an unknown version)
+}
+
+export type LoadState = 'idle' | 'loading' | 'loaded' | 'error' | 'loading-more' | 'load-more-error'; // The last two are about further pages
+
+export interface NodeLoadState {
+  status: LoadState;
+  error?: string; // Message shown in the inline error row when status is 'error'
+}
+
+export interface LoadChildrenOptions {
+  signal: AbortSignal; // Aborted when the node is collapsed (or reloaded) mid-request
+  cursor?: string; // Set when fetching a page after the first: the nextCursor of the previous page
+  pageSize: number; // TreeView's childPageSize; loaders that return all children at once can ignore it
+}
+
+// One page of a node's children, for loaders that fetch large child lists in parts
+export interface ChildrenPage {
+  children: ITreeNode[];
+  nextCursor?: string | null; // Passed back as options.cursor for the next page; absent or null on the last page
+  remainingCount?: number; // Children after this page, shown as "Load more (x remaining)"
+}
+
+// Fetches the children of a lazy node (one whose children === true), all at once or a page at a time
+export type LoadChildren = (node: ITreeNode, level: number, options: LoadChildrenOptions) => Promise<ITreeNode[] | ChildrenPage>;
+
+// Where a node sits: its parent (null for root) and its index among that parent's children
+export interface NodePosition {
+  parentId: string | null;
+  index: number;
+}
+
+// Describes a single mutation, reported alongside the next tree through TreeView's onChange
+export type TreeChange =
+  | { type: 'add'; node: ITreeNode; parentId: string | null; index: number }
+  | { type: 'remove'; nodeId: string }
+  | { type: 'rename'; nodeId: string; name: string }
+  | { type: 'move'; nodeId: string; parentId: string | null; index: number } // The node's new position
+  | { type: 'expand'; nodeId: string; isExpanded: boolean }
+  | { type: 'load'; nodeId: string; children: ITreeNode[] }
+  | { type: 'load-more'; nodeId: string; children: ITreeNode[] } // A further page, appended to the loaded children
+  | { type: 'change-id'; nodeId: string; newId: string } // A temporary id was swapped for the one onAdd resolved with
+  | { type: 'replace'; tree: TreeData } // The whole tree was swapped out, e.g. restored from storage
+  | { type: 'batch'; changes: TreeChange[] }; // Several changes applied as one step, e.g. a bulk delete
+
+export type TreeFormat = 'json' | 'text' | 'markdown' | 'csv' | 'opml';
+
+export interface ImportError {
+  line?: number; // 1-based; absent when the problem has no single line (e.g. a JSON node with a bad field)
+  message: string;
+}
+
+export interface ImportOptions {
+  mode?: 'replace' | 'merge'; // Replace the whole tree (default) or add the imported roots under parentId
+  parentId?: string | null; // Where merged nodes go; null (default) appends them to the root
+}
+
+export interface ImportResult {
+  tree: TreeData; // Empty whenever there are errors
+  errors: ImportError[];
+}
+
+// Where persisted state is kept. Both sync (localStorage) and async (e.g. IndexedDB, a server) stores fit.
+export interface StorageAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+// What TreeView saves: the tree itself (unless uiStateOnly) and the UI state on top of it
+export interface PersistedTreeState {
+  version: number;
+  tree?: TreeData;
+  expandedIds: string[];
+  selectedIds: string[];
+}
+
+// Upgrades a stored state from one version to the next; receives whatever the older version saved
+export type PersistMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+export interface PersistOptions {
+  key: string;
+  storage?: StorageAdapter; // Defaults to localStorage
+  version?: number; // Bump when the stored shape changes; defaults to 1
+  migrations?: Record<number, PersistMigration>; // Keyed by the version each one upgrades from
+  uiStateOnly?: boolean; // Save only expansion and selection; the data comes from data/defaultData and the loader
+  debounceMs?: number; // Delay before a change is written; defaults to 500
+}
+
+// Backend persistence of edits (including undo and redo). Each change is shown at once and the callback runs
+// afterwards; a rejection rolls the change back and shows the error on the row. Calls run one at a time, in order,
+// so a node's add has resolved (and its server id is known) before any later call about it.
+export interface TreeSyncCallbacks<T = unknown> {
+  onAdd?: (node: ITreeNode<T>, parentId: string | null, index: number) => Promise<string | void>; // Resolve with the server id to replace the temporary one
+  onRename?: (nodeId: string, name: string) => Promise<void>;
+  onRemove?: (nodeId: string) => Promise<void>;
+  onMove?: (nodeId: string, parentId: string | null, index: number) => Promise<void>; // index among the new siblings
+}
+
+// Where an operation comes from and where it falls in a causal order. Ids are unique per actor.
+export interface OperationMeta {
+  id: string;
+  actorId: string; // The TreeView instance (replica) that made the change
+  clock: number; // Lamport clock; with actorId it decides which of two concurrent renames or moves wins
+}
+
+// A single edit as it is sent to other replicas: plain JSON, addressed by node id. positionKey orders a node
+// among its siblings the same way on every replica, however the indexes there have shifted.
+export type TreeOperation = OperationMeta & (
+  | { type: 'add'; node: ITreeNode; parentId: string | null; positionKey: string } // node includes its loaded subtree
+  | { type: 'remove'; nodeId: string; descendantIds: string[] } // The loaded subtree as the sender saw it
+  | { type: 'rename'; nodeId: string; name: string }
+  | { type: 'move'; nodeId: string; parentId: string | null; positionKey: string }
+);
+
+// Carries operations between replicas; send never delivers back to the sender's own listeners
+export interface TreeTransport {
+  send: (operations: TreeOperation[]) => void;
+  subscribe: (listener: (operations: TreeOperation[]) => void) => () => void; // Returns an unsubscribe function
+}
+
+// Imperative API exposed through a ref on TreeView
+export interface TreeViewHandle<T = unknown> {
+  getTree: () => TreeData<T>;
+  expand: (nodeId: string) => void;
+  collapse: (nodeId: string) => void;
+  expandAll: (nodeId?: string | null) => Promise<void>; // The whole tree, or the branch under nodeId, loading lazy nodes on the way
+  collapseAll: (nodeId?: string | null) => void; // Loaded children stay loaded
+  expandToDepth: (depth: number) => Promise<void>; // Shows depth levels below the roots and collapses everything deeper
+  cancelExpand: () => void; // Stops the lazy loads of a running expandAll or expandToDepth
+  addNode: (parentId: string | null, name: string) => string | null; // Returns the new node's id, or null if refused
+  removeNode: (nodeId: string) => void;
+  renameNode: (nodeId: string, name: string) => void;
+  moveNode: (nodeId: string, targetNodeId: string | null, position: DropPosition) => void;
+  scrollToNode: (nodeId: string) => void;
+  // Loads every lazy ancestor in order, expands them, then scrolls to, focuses and highlights the node. Nodes that
+  // haven't loaded yet need resolveNodePath. Resolves to false if the node can't be found or another reveal started.
+  revealNode: (nodeId: string) => Promise<boolean>;
+  revealPath: (names: string[]) => Promise<boolean>; // The same, following node names from a root, e.g. ['Root B', 'Child B1']
+  filter: (filter: TreeFilter | string | null) => void; // A string is a substring query; null clears the search
+  nextMatch: () => void;
+  previousMatch: () => void;
+  getSelection: () => string[];
+  select: (nodeIds: string[]) => void;
+  getChecked: () => string[]; // In the form given by checkedStrategy
+  check: (nodeId: string, isChecked: boolean) => void;
+  importTree: (input: string, format: TreeFormat, options?: ImportOptions) => Promise<ImportResult>; // Nothing changes if there are errors
+  exportTree: (format: TreeFormat, nodeId?: string) => string; // The whole tree, or the subtree under nodeId
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  applyRemoteOperations: (operations: TreeOperation[]) => void; // Merges edits made on another replica; repeats are ignored
 }
@@ -0,0 +1,61 @@
+// src/useAutoScroll.ts
+import { useRef, useCallback, useEffect, RefObject } from 'react';
+
+const EDGE_SIZE = 48; // Distance from the top or bottom edge (px) where scrolling starts
+const MAX_SPEED = 18; // Pixels per frame with the pointer right at the edge
+
+// Helper to pick what scrolls: the container when it has its own scrollbar (virtualized mode), else the page
+const getScroller = (container: HTMLElement): { element: Element; top: number; bottom: number } | null => {
+  const { overflowY } = window.getComputedStyle(container);
+  if ((overflowY === 'auto' || overflowY === 'scroll') && container.scrollHeight > container.clientHeight) {
+    const rect = container.getBoundingClientRect();
+    return { element: container, top: rect.top, bottom: rect.bottom };
+  }
+  return document.scrollingElement ? { element: document.scrollingElement, top: 0, bottom: window.innerHeight } : null;
+};
+
+// Scrolls while a drag hovers near the top or bottom edge, faster the closer it gets. Feed it the pointer
+// position on every move; it keeps scrolling between moves until the pointer leaves the edge or stop() is called.
+export const useAutoScroll = (containerRef: RefObject<HTMLElement | null>, onScroll?: () => void) => {
+  const frameRef = useRef<number | null>(null);
+  const pointerYRef = useRef(0);
+  const onScrollRef = useRef(onScroll);
+  onScrollRef.current = onScroll;
+
+  const stop = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }, []);
+
+  // Scrolls one frame's worth; returns false once the pointer is out of the edges
+  const scrollStep = useCallback((): boolean => {
+    const container = containerRef.current;
+    const scroller = container && getScroller(container);
+    if (!scroller) return false;
+    const y = pointerYRef.current;
+    let speed = 0;
+    if (y < scroller.top + EDGE_SIZE) {
+      speed = -MAX_SPEED * Math.min(1, (scroller.top + EDGE_SIZE - y) / EDGE_SIZE);
+    } else if (y > scroller.bottom - EDGE_SIZE) {
+      speed = MAX_SPEED * Math.min(1, (y - scroller.bottom + EDGE_SIZE) / EDGE_SIZE);
+    }
+    if (speed === 0) return false;
+    const previousTop = scroller.element.scrollTop;
+    scroller.element.scrollTop += Math.round(speed);
+    if (scroller.element.scrollTop !== previousTop) onScrollRef.current?.();
+    return true;
+  }, [containerRef]);
+
+  const update = useCallback((clientY: number) => {
+    pointerYRef.current = clientY;
+    if (frameRef.current !== null) return; // Already scrolling; the next frame picks up the new position
+    const tick = () => {
+      frameRef.current = scrollStep() ? requestAnimationFrame(tick) : null;
+    };
+    tick();
+  }, [scrollStep]);
+
+  useEffect(() => stop, [stop]);
+
+  return { update, stop };
+};
@@ -0,0 +1,139 @@
+// src/useBulkExpand.ts
+import { useState, useCallback, useRef, useEffect, RefObject } from 'react';
+import { TreeChange } from './types';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+
+// How far a bulk expand has got with the lazy nodes it found on the way
+export interface BulkExpandProgress {
+  loaded: number;
+  total: number; // Grows as loaded children turn out to contain more lazy nodes
+}
+
+interface BulkExpandOptions {
+  storeRef: RefObject<TreeStore>;
+  applyChange: (updater: (prevStore: TreeStore) => TreeStore, change: TreeChange) => boolean;
+  loadNode: (nodeId: string) => Promise<void>; // Loads a lazy node's children; settles once they are in (or failed)
+  cancelLoad: (nodeId: string) => void; // Aborts a load this hook started, leaving the node collapsed and lazy
+  concurrency: number; // Lazy loads in flight at a time
+}
+
+// Helper to describe expanding or collapsing several nodes to onChange
+const toExpandChange = (nodeIds: string[], isExpanded: boolean): TreeChange => ({
+  type: 'batch',
+  changes: nodeIds.map(nodeId => ({ type: 'expand', nodeId, isExpanded })),
+});
+
+// Expands whole branches, loading lazy nodes along the way a few at a time. One run at a time; starting
+// another, collapsing or cancelling stops the current one.
+export const useBulkExpand = ({ storeRef, applyChange, loadNode, cancelLoad, concurrency }: BulkExpandOptions) => {
+  const [progress, setProgress] = useState<BulkExpandProgress | null>(null); // null when nothing is loading
+  const runRef = useRef<{ isCancelled: boolean; loadingIds: Set<string> } | null>(null);
+
+  const loadNodeRef = useRef(loadNode);
+  loadNodeRef.current = loadNode;
+  const cancelLoadRef = useRef(cancelLoad);
+  cancelLoadRef.current = cancelLoad;
+
+  const cancel = useCallback(() => {
+    const run = runRef.current;
+    if (!run) return;
+    run.isCancelled = true;
+    run.loadingIds.forEach(nodeId => cancelLoadRef.current(nodeId));
+    runRef.current = null;
+    setProgress(null);
+  }, []);
+
+  // Unmounting aborts the loads anyway; just make sure a late one doesn't carry on expanding
+  useEffect(() => () => {
+    if (runRef.current) runRef.current.isCancelled = true;
+  }, []);
+
+  // Expands nodeId (null for every root) and its descendants down to maxDepth levels below it (0 = only
+  // the node itself). Resolves when every load has settled or the run was cancelled.
+  const expandBranch = useCallback((nodeId: string | null, maxDepth: number = Infinity): Promise<void> => {
+    cancel();
+    const run = { isCancelled: false, loadingIds: new Set<string>() };
+    runRef.current = run;
+    const lazyQueue: { nodeId: string; depth: number }[] = [];
+    let loaded = 0;
+    let total = 0;
+
+    // Expands the loaded part of a branch in one change and queues the lazy nodes found in it
+    const expandLoaded = (startIds: string[], depth: number) => {
+      const expandIds: string[] = [];
+      const visit = (currentId: string, currentDepth: number) => {
+        const record = treeStore.getNode(storeRef.current, currentId);
+        if (!record || currentDepth > maxDepth || !treeStore.isExpandable(record)) return;
+        if (record.childIds === true) {
+          lazyQueue.push({ nodeId: currentId, depth: currentDepth });
+          total++;
+          return;
+        }
+        expandIds.push(currentId);
+        record.childIds.forEach(childId => visit(childId, currentDepth + 1));
+      };
+      startIds.forEach(startId => visit(startId, depth));
+      applyChange(prevStore => treeStore.setExpanded(prevStore, expandIds, true), toExpandChange(expandIds, true));
+    };
+
+    expandLoaded(nodeId === null ? storeRef.current.rootIds : [nodeId], 0);
+    if (lazyQueue.length === 0) {
+      runRef.current = null;
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      // Expands a lazy node and loads its children, then carries on with whatever they queued
+      const startLoad = (lazyId: string, depth: number) => {
+        run.loadingIds.add(lazyId);
+        applyChange(prevStore => treeStore.setExpanded(prevStore, [lazyId], true), { type: 'expand', nodeId: lazyId, isExpanded: true });
+        loadNodeRef.current(lazyId).then(() => {
+          run.loadingIds.delete(lazyId);
+          if (run.isCancelled) {
+            if (run.loadingIds.size === 0) resolve();
+            return;
+          }
+          loaded++;
+          const record = treeStore.getNode(storeRef.current, lazyId);
+          if (record && Array.isArray(record.childIds)) expandLoaded(record.childIds, depth + 1);
+          startLoads();
+        });
+      };
+
+      // Starts queued loads up to the concurrency limit; each finished load may queue more
+      const startLoads = () => {
+        while (run.loadingIds.size < concurrency && lazyQueue.length > 0) {
+          const { nodeId: lazyId, depth } = lazyQueue.shift() as { nodeId: string; depth: number };
+          startLoad(lazyId, depth);
+        }
+        if (run.loadingIds.size > 0) {
+          setProgress({ loaded, total });
+          return;
+        }
+        runRef.current = null;
+        setProgress(null);
+        resolve();
+      };
+      startLoads();
+    });
+  }, [storeRef, applyChange, concurrency, cancel]);
+
+  // Collapses nodeId (null for the whole tree) and every loaded descendant; their children stay loaded
+  const collapseBranch = useCallback((nodeId: string | null) => {
+    cancel();
+    const collapseIds = treeStore.getSubtreeIds(storeRef.current, nodeId);
+    applyChange(prevStore => treeStore.setExpanded(prevStore, collapseIds, false), toExpandChange(collapseIds, false));
+  }, [storeRef, applyChange, cancel]);
+
+  // Leaves depth levels below the roots showing: nodes above that level are expanded, the rest collapsed
+  const expandToDepth = useCallback((depth: number): Promise<void> => {
+    cancel();
+    const currentStore = storeRef.current;
+    const deepIds = treeStore.getSubtreeIds(currentStore, null).filter(nodeId => treeStore.getLevel(currentStore, nodeId) >= depth);
+    applyChange(prevStore => treeStore.setExpanded(prevStore, deepIds, false), toExpandChange(deepIds, false));
+    return expandBranch(null, depth - 1);
+  }, [storeRef, applyChange, cancel, expandBranch]);
+
+  return { progress, expandBranch, collapseBranch, expandToDepth, cancel };
+};
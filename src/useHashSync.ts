@@ -0,0 +1,56 @@
+// src/useHashSync.ts
+import { useEffect, useRef } from 'react';
+
+interface HashSyncOptions {
+  selectedId: string | null; // Written to the hash whenever it changes
+  onNavigate: (nodeId: string) => Promise<boolean>; // For the node the hash names, on mount and when the URL changes; false if it couldn't be shown
+}
+
+// Helper to read the hash as `key=value&...` parameters, so other code can keep its own keys there
+const readHashParams = () => new URLSearchParams(window.location.hash.slice(1));
+
+// Helper to point the hash at a node (or at none), replacing the current history entry
+const writeHashParam = (param: string, nodeId: string | null) => {
+  const params = readHashParams();
+  if (params.get(param) === nodeId) return;
+  if (nodeId) {
+    params.set(param, nodeId);
+  } else {
+    params.delete(param);
+  }
+  const hash = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`);
+};
+
+// Keeps `#param=<node id>` in the address in step with the selected node, so links to it can be shared, and
+// navigates to the node a hash names. Writes replace the current history entry rather than piling up new ones.
+export const useHashSync = (param: string | undefined, { selectedId, onNavigate }: HashSyncOptions) => {
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+  const selectedIdRef = useRef(selectedId);
+  selectedIdRef.current = selectedId;
+  const pendingIdRef = useRef<string | null>(null); // A node still being navigated to; the hash keeps naming it meanwhile
+
+  useEffect(() => {
+    if (!param) return;
+    const navigate = () => {
+      const nodeId = readHashParams().get(param);
+      if (!nodeId) return;
+      pendingIdRef.current = nodeId;
+      onNavigateRef.current(nodeId).catch(() => false).then(isShown => {
+        if (pendingIdRef.current !== nodeId) return;
+        pendingIdRef.current = null;
+        // A node that couldn't be shown was never selected: point the hash back at the one that is
+        if (!isShown) writeHashParam(param, selectedIdRef.current);
+      });
+    };
+    navigate();
+    window.addEventListener('hashchange', navigate);
+    return () => window.removeEventListener('hashchange', navigate);
+  }, [param]);
+
+  useEffect(() => {
+    if (!param || pendingIdRef.current !== null) return;
+    writeHashParam(param, selectedId);
+  }, [param, selectedId]);
+};
@@ -0,0 +1,201 @@
+// src/usePointerDrag.ts
+import React, { useState, useRef, useCallback, useEffect, useLayoutEffect, RefObject } from 'react';
+import { DropPosition, DropTarget } from './types';
+import { getDropPosition } from './TreeNode';
+import { useAutoScroll } from './useAutoScroll';
+
+const LONG_PRESS_DELAY = 500; // How long (ms) a finger has to rest on a row to pick the node up
+const MOVE_THRESHOLD = 6; // Pixels a press may travel before it turns into a drag (mouse, pen) or a scroll (touch)
+const PREVIEW_OFFSET = 12; // Gap between the pointer and the drag preview
+
+interface PointerDragOptions {
+  containerRef: RefObject<HTMLDivElement | null>;
+  isSortedRow: (nodeId: string) => boolean; // Rows among sorted siblings only take drops into them
+  onStart: (nodeId: string) => boolean; // Picks up the node; false if it can't be dragged
+  onMove: (targetNodeId: string | null, position: DropPosition, event: PointerEvent) => boolean; // Whether a drop there is allowed
+  onDrop: (targetNodeId: string | null, position: DropPosition, event: PointerEvent) => void;
+  onEnd: () => void; // After a drop, or when the drag is cancelled with Escape or by the browser
+}
+
+// The state of a press on a row, from pointerdown until it is released or becomes a scroll
+interface Press {
+  pointerId: number;
+  nodeId: string;
+  startX: number;
+  startY: number;
+  lastEvent: PointerEvent | null;
+  isDragging: boolean;
+  target: DropTarget | null;
+  cleanUp: () => void;
+}
+
+// Helper to compare two drop targets by value
+const isSameTarget = (a: DropTarget | null, b: DropTarget | null) => {
+  return a === b || (!!a && !!b && a.nodeId === b.nodeId && a.position === b.position && a.isAllowed === b.isAllowed);
+};
+
+// A drag engine built on Pointer Events, for devices where native drag and drop doesn't fire (touch screens).
+// Mice and pens pick a node up once the pointer moves; a finger has to rest on the row first, so that swiping
+// still scrolls. The hook tracks the drop target and auto-scrolls; the view renders the preview into previewRef.
+export const usePointerDrag = ({ containerRef, ...options }: PointerDragOptions) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const pressRef = useRef<Press | null>(null);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Finds the row under the pointer and asks the view whether a drop there is allowed
+  const updateTarget = useCallback(() => {
+    const press = pressRef.current;
+    const event = press?.lastEvent;
+    if (!press?.isDragging || !event) return;
+    const element = document.elementFromPoint(event.clientX, event.clientY);
+    const row = element?.closest<HTMLElement>('[data-node-id]');
+    let target: DropTarget | null = null;
+    if (element && containerRef.current?.contains(element)) {
+      const nodeId = row?.dataset.nodeId ?? null;
+      const position = row && nodeId ? getDropPosition(row.getBoundingClientRect(), event.clientY, optionsRef.current.isSortedRow(nodeId)) : 'child';
+      target = { nodeId, position, isAllowed: optionsRef.current.onMove(nodeId, position, event) };
+    }
+    press.target = target;
+    setDropTarget(prevTarget => (isSameTarget(prevTarget, target) ? prevTarget : target));
+  }, [containerRef]);
+
+  // Rows move under a pointer that stands still while the tree scrolls
+  const { update: updateAutoScroll, stop: stopAutoScroll } = useAutoScroll(containerRef, updateTarget);
+
+  const movePreview = useCallback((event: PointerEvent) => {
+    if (previewRef.current) {
+      previewRef.current.style.transform = `translate(${event.clientX + PREVIEW_OFFSET}px, ${event.clientY + PREVIEW_OFFSET}px)`;
+    }
+  }, []);
+
+  // Ends the press; a drag that was under way is over, dropped or not
+  const finish = useCallback(() => {
+    const press = pressRef.current;
+    if (!press) return;
+    pressRef.current = null;
+    press.cleanUp();
+    stopAutoScroll();
+    if (press.isDragging) {
+      setIsDragging(false);
+      setDropTarget(null);
+      optionsRef.current.onEnd();
+    }
+  }, [stopAutoScroll]);
+
+  const begin = useCallback((press: Press) => {
+    if (!optionsRef.current.onStart(press.nodeId)) {
+      finish();
+      return;
+    }
+    press.isDragging = true;
+    setIsDragging(true);
+    updateTarget();
+  }, [finish, updateTarget]);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLElement>, nodeId: string) => {
+    // Buttons, checkboxes, the toggle and the rename input keep their own pointer handling
+    if (pressRef.current || !event.isPrimary || event.button !== 0) return;
+    if ((event.target as HTMLElement).closest('button, input, .expand-toggle')) return;
+    // Touch presses are captured by the row; a virtualized row may be unmounted mid-drag, so let go of it
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) event.currentTarget.releasePointerCapture(event.pointerId);
+
+    let longPressTimeoutId: number | undefined;
+    const isTouch = event.pointerType === 'touch';
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const press = pressRef.current;
+      if (!press || moveEvent.pointerId !== press.pointerId) return;
+      press.lastEvent = moveEvent;
+      if (!press.isDragging) {
+        if (Math.hypot(moveEvent.clientX - press.startX, moveEvent.clientY - press.startY) < MOVE_THRESHOLD) return;
+        if (isTouch) {
+          finish(); // The finger moved on before the long press: a scroll, not a drag
+        } else {
+          begin(press);
+        }
+        return;
+      }
+      moveEvent.preventDefault();
+      movePreview(moveEvent);
+      updateAutoScroll(moveEvent.clientY);
+      updateTarget();
+    };
+
+    const handleUp = (upEvent: PointerEvent) => {
+      const press = pressRef.current;
+      if (!press || upEvent.pointerId !== press.pointerId) return;
+      if (press.isDragging) {
+        // Swallow the click that follows the release, so the drop doesn't also select the row under it
+        const swallowClick = (clickEvent: MouseEvent) => clickEvent.stopPropagation();
+        window.addEventListener('click', swallowClick, true);
+        window.setTimeout(() => window.removeEventListener('click', swallowClick, true));
+        if (press.target?.isAllowed) optionsRef.current.onDrop(press.target.nodeId, press.target.position, upEvent);
+      }
+      finish();
+    };
+
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key !== 'Escape' || !pressRef.current?.isDragging) return;
+      keyEvent.preventDefault();
+      keyEvent.stopPropagation();
+      finish();
+    };
+
+    // Once a finger has picked a node up, moving it must not scroll the page; a long press mustn't open the menu
+    const preventTouchScroll = (touchEvent: TouchEvent) => {
+      if (pressRef.current?.isDragging && touchEvent.cancelable) touchEvent.preventDefault();
+    };
+    const preventContextMenu = (menuEvent: MouseEvent) => {
+      menuEvent.preventDefault();
+      menuEvent.stopPropagation();
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', finish);
+    window.addEventListener('keydown', handleKeyDown, true);
+    if (isTouch) {
+      window.addEventListener('touchmove', preventTouchScroll, { passive: false });
+      window.addEventListener('contextmenu', preventContextMenu, true);
+    }
+
+    const press: Press = {
+      pointerId: event.pointerId,
+      nodeId,
+      startX: event.clientX,
+      startY: event.clientY,
+      lastEvent: event.nativeEvent,
+      isDragging: false,
+      target: null,
+      cleanUp: () => {
+        window.clearTimeout(longPressTimeoutId);
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        window.removeEventListener('pointercancel', finish);
+        window.removeEventListener('keydown', handleKeyDown, true);
+        window.removeEventListener('touchmove', preventTouchScroll);
+        window.removeEventListener('contextmenu', preventContextMenu, true);
+      },
+    };
+    pressRef.current = press;
+    if (isTouch) longPressTimeoutId = window.setTimeout(() => begin(press), LONG_PRESS_DELAY);
+  }, [begin, finish, movePreview, updateTarget, updateAutoScroll]);
+
+  // The preview is rendered once the drag has started; put it under the pointer straight away
+  useLayoutEffect(() => {
+    const event = pressRef.current?.lastEvent;
+    if (isDragging && event) movePreview(event);
+  }, [isDragging, movePreview]);
+
+  // A drag can't outlive the tree
+  useEffect(() => () => {
+    pressRef.current?.cleanUp();
+    pressRef.current = null;
+  }, []);
+
+  return { isDragging, dropTarget, previewRef, handlePointerDown };
+};
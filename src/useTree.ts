@@ -0,0 +1,450 @@
+// src/useTree.ts
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { ITreeNode, TreeData, DragItem, DropPosition, LoadChildren, NodeLoadState, TreeChange, VisibleNode } from './types';
+import { setParentIds } from './mockData';
+import * as treeModel from './treeModel';
+import { TreeStore } from './treeModel';
+import * as treeHistory from './treeHistory';
+import { TreeCommand, TreeHistory } from './treeHistory';
+import { useBulkExpand } from './useBulkExpand';
+
+export interface TreeOptions<T = unknown> {
+  data?: TreeData<T>; // Controlled tree; pair with onChange
+  defaultData?: TreeData<T>; // Initial tree when uncontrolled
+  onChange?: (nextTree: TreeData<T>, change: TreeChange) => void;
+  loadChildren?: LoadChildren; // Without a loader, lazy nodes expand to an empty list
+  childPageSize?: number; // Passed to loadChildren as options.pageSize
+  expandConcurrency?: number; // Lazy loads in flight at a time during a bulk expand
+  onCommand?: (command: TreeCommand, prevStore: TreeStore) => void; // After every edit, undo and redo, with the store it was applied to
+}
+
+// Where a row sits, for its ARIA attributes, plus drag source handlers of the view's own
+export interface NodePropsOptions extends Omit<VisibleNode, 'node'> {
+  role?: 'treeitem' | 'row'; // 'row' for the rows of a treegrid; 'treeitem' by default
+  onDragStart?: (event: React.DragEvent<HTMLElement>) => string[] | null; // The ids to drag, or null to cancel; the node alone by default
+  onDragEnd?: (event: React.DragEvent<HTMLElement>) => void;
+}
+
+// Spread onto a row's element
+export interface NodeProps {
+  'data-node-id': string;
+  role: 'treeitem' | 'row';
+  'aria-level': number;
+  'aria-posinset': number;
+  'aria-setsize': number;
+  'aria-expanded': boolean | undefined; // Only set on nodes that have (or may have) children
+  'aria-busy': true | undefined; // While the node's children load
+  draggable: boolean;
+  onDragStart: (event: React.DragEvent<HTMLElement>) => void;
+  onDragEnd: (event: React.DragEvent<HTMLElement>) => void;
+}
+
+export interface ToggleOptions {
+  onClick?: (event: React.MouseEvent<HTMLElement>) => void; // Runs first; preventDefault() skips the built-in toggle
+}
+
+export interface DropZoneOptions {
+  position?: DropPosition | ((event: React.DragEvent<HTMLElement>) => DropPosition); // 'child' by default; rows usually work it out from the pointer
+  canDrop?: (event: React.DragEvent<HTMLElement>, position: DropPosition) => boolean; // Replaces the check that the dragged nodes can move here
+  onDrop?: (event: React.DragEvent<HTMLElement>, position: DropPosition) => void; // Replaces moving the dragged nodes here
+}
+
+export interface ToggleProps {
+  onClick: (event: React.MouseEvent<HTMLElement>) => void;
+}
+
+export interface DropZoneProps {
+  onDragOver: (event: React.DragEvent<HTMLElement>) => void;
+  onDrop: (event: React.DragEvent<HTMLElement>) => void;
+}
+
+// Helper to tell whether a nested node has (or may have, while unloaded) children
+const hasChildNodes = (node: ITreeNode) => node.hasChildren ?? (node.children === true || (Array.isArray(node.children) && node.children.length > 0));
+
+// The tree model as React state: the store (controlled or not), undo history, lazy loading, expansion and
+// edits, plus prop getters that wire any markup up as rows, toggles and drop zones. TreeView is built on it;
+// use it directly to render a tree of your own.
+export const useTree = <T = unknown>({
+  data,
+  defaultData,
+  onChange,
+  loadChildren,
+  childPageSize = 100,
+  expandConcurrency = 4,
+  onCommand,
+}: TreeOptions<T> = {}) => {
+  const [internalStore, setInternalStore] = useState<TreeStore>(() => treeModel.createModel(defaultData ?? []));
+  const [loadStates, setLoadStates] = useState<Record<string, NodeLoadState>>({});
+  const [draggedItem, setDraggedItem] = useState<DragItem | null>(null);
+
+  // The last tree reported through onChange, with the store it came from. When a controlled parent
+  // passes that tree straight back, the store is reused instead of being rebuilt from the nested data.
+  const lastEmittedRef = useRef<{ tree: TreeData; store: TreeStore } | null>(null);
+
+  const isControlled = data !== undefined;
+  const controlledStore = useMemo(() => {
+    if (data === undefined) return null;
+    return lastEmittedRef.current?.tree === data ? lastEmittedRef.current.store : treeModel.createModel(data);
+  }, [data]);
+  const store = controlledStore ?? internalStore;
+  const tree = useMemo(() => treeModel.toTree(store) as TreeData<T>, [store]);
+
+  // Latest store and callbacks, so async loads and event handlers never act on a stale snapshot
+  const storeRef = useRef(store);
+  storeRef.current = store;
+  const isControlledRef = useRef(isControlled);
+  isControlledRef.current = isControlled;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const draggedItemRef = useRef(draggedItem);
+  draggedItemRef.current = draggedItem;
+  const loadStatesRef = useRef(loadStates); // Keeps getNodeProps the same across loads; each row re-renders for its own load state
+  loadStatesRef.current = loadStates;
+
+  // In-flight child loads, keyed by node id, so they can be aborted on collapse
+  const loadControllers = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const controllers = loadControllers.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  // Every mutation goes through here: computes the next store, keeps it when uncontrolled and reports the tree
+  const applyChange = useCallback((updater: (prevStore: TreeStore) => TreeStore, change: TreeChange): boolean => {
+    const prevStore = storeRef.current;
+    const nextStore = updater(prevStore);
+    if (nextStore === prevStore) return false;
+
+    storeRef.current = nextStore; // Lets several changes in one tick build on each other
+    if (!isControlledRef.current) {
+      setInternalStore(nextStore);
+    }
+    if (onChangeRef.current) {
+      const nextTree = treeModel.toTree(nextStore);
+      lastEmittedRef.current = { tree: nextTree, store: nextStore };
+      onChangeRef.current(nextTree as TreeData<T>, change);
+    }
+    return true;
+  }, []);
+
+  // --- Undo / Redo ---
+
+  const historyRef = useRef<TreeHistory>(treeHistory.emptyHistory);
+
+  // Applies an undoable command and records it in the history; returns whether it changed the tree
+  const execute = useCallback((command: TreeCommand | null): boolean => {
+    if (!command) return false;
+    const prevStore = storeRef.current;
+    if (!applyChange(currentStore => treeHistory.applyCommand(currentStore, command), treeHistory.toTreeChange(command))) return false;
+    historyRef.current = treeHistory.recordCommand(historyRef.current, command, Date.now());
+    onCommandRef.current?.(command, prevStore);
+    return true;
+  }, [applyChange]);
+
+  // Undoes (or redoes) one step; returns the command that was applied, if any
+  const step = useCallback((direction: 'undo' | 'redo'): TreeCommand | null => {
+    const nextStep = direction === 'undo' ? treeHistory.undo(historyRef.current) : treeHistory.redo(historyRef.current);
+    if (!nextStep) return null;
+    historyRef.current = nextStep.history;
+    const prevStore = storeRef.current;
+    if (applyChange(currentStore => treeHistory.applyCommand(currentStore, nextStep.command), treeHistory.toTreeChange(nextStep.command))) {
+      onCommandRef.current?.(nextStep.command, prevStore);
+    }
+    return nextStep.command;
+  }, [applyChange]);
+
+  // --- Lazy Loading ---
+
+  const setNodeLoadState = useCallback((nodeId: string, loadState: NodeLoadState) => {
+    setLoadStates(prevLoadStates => ({ ...prevLoadStates, [nodeId]: loadState }));
+  }, []);
+
+  // Carries a node's load state over when a server id replaces its temporary one
+  const replaceLoadStateId = useCallback((nodeId: string, newId: string) => {
+    setLoadStates(prevLoadStates => {
+      if (!(nodeId in prevLoadStates)) return prevLoadStates;
+      const { [nodeId]: loadState, ...otherLoadStates } = prevLoadStates;
+      return { ...otherLoadStates, [newId]: loadState };
+    });
+  }, []);
+
+  const abortLoad = useCallback((nodeId: string) => {
+    const controller = loadControllers.current.get(nodeId);
+    if (controller) {
+      controller.abort();
+      loadControllers.current.delete(nodeId);
+    }
+  }, []);
+
+  // Fetches a node's children (again, if they were loaded) and replaces whatever it had; settles once they are in or failed
+  const loadNode = useCallback(async (nodeId: string) => {
+    const currentStore = storeRef.current;
+    if (!treeModel.getNode(currentStore, nodeId)) return;
+    abortLoad(nodeId); // Only one request per node at a time
+    const controller = new AbortController();
+    loadControllers.current.set(nodeId, controller);
+    setNodeLoadState(nodeId, { status: 'loading' });
+
+    try {
+      const node = treeModel.getTreeNode(currentStore, nodeId);
+      const result = loadChildren ? await loadChildren(node, treeModel.getLevel(currentStore, nodeId), { signal: controller.signal, pageSize: childPageSize }) : [];
+      if (controller.signal.aborted) return;
+      const page = treeModel.toChildrenPage(result);
+      const children = setParentIds(page.children, nodeId);
+      applyChange(prevStore => treeModel.loadChildren(prevStore, nodeId, { ...page, children }), { type: 'load', nodeId, children });
+      setNodeLoadState(nodeId, { status: 'loaded' });
+    } catch (error) {
+      if (controller.signal.aborted) return; // Whoever aborted has already reset the load state
+      setNodeLoadState(nodeId, {
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      if (loadControllers.current.get(nodeId) === controller) {
+        loadControllers.current.delete(nodeId);
+      }
+    }
+  }, [loadChildren, childPageSize, abortLoad, setNodeLoadState, applyChange]);
+
+  // Fetches the next page of a partially loaded node and appends it to the children already there; resolves to whether it did
+  const loadMore = useCallback(async (nodeId: string): Promise<boolean> => {
+    const currentStore = storeRef.current;
+    const record = treeModel.getNode(currentStore, nodeId);
+    if (!loadChildren || !record?.childrenCursor || loadControllers.current.has(nodeId)) return false;
+    const controller = new AbortController();
+    loadControllers.current.set(nodeId, controller);
+    setNodeLoadState(nodeId, { status: 'loading-more' });
+
+    try {
+      const node = treeModel.getTreeNode(currentStore, nodeId);
+      const result = await loadChildren(node, treeModel.getLevel(currentStore, nodeId), { signal: controller.signal, cursor: record.childrenCursor, pageSize: childPageSize });
+      if (controller.signal.aborted) return false;
+      const page = treeModel.toChildrenPage(result);
+      const children = setParentIds(page.children, nodeId);
+      applyChange(prevStore => treeModel.loadMoreChildren(prevStore, nodeId, { ...page, children }), { type: 'load-more', nodeId, children });
+      setNodeLoadState(nodeId, { status: 'loaded' });
+      return true;
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setNodeLoadState(nodeId, {
+          status: 'load-more-error',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return false;
+    } finally {
+      if (loadControllers.current.get(nodeId) === controller) {
+        loadControllers.current.delete(nodeId);
+      }
+    }
+  }, [loadChildren, childPageSize, setNodeLoadState, applyChange]);
+
+  // Loads a lazy node that hasn't been loaded yet, e.g. before adding to it; resolves to whether its children
+  // are in (always true for null, the root)
+  const ensureChildrenLoaded = useCallback(async (nodeId: string | null): Promise<boolean> => {
+    if (nodeId === null) return true;
+    if (treeModel.needsLoad(storeRef.current, nodeId)) await loadNode(nodeId);
+    return Array.isArray(treeModel.getNode(storeRef.current, nodeId)?.childIds);
+  }, [loadNode]);
+
+  // Walks a path down from the roots, loading each node on it that needsLoad (and further pages of its children
+  // until the next step turns up). Resolves to the ids along the path, or null if a step found nothing or signal aborted.
+  const loadPath = useCallback(async (steps: treeModel.PathStep[], signal?: AbortSignal): Promise<string[] | null> => {
+    const ids: string[] = [];
+    let parentId: string | null = null;
+    for (const findChild of steps) {
+      if (signal?.aborted || !(await ensureChildrenLoaded(parentId))) return null;
+      let childId = findChild(storeRef.current, parentId);
+      while (childId === undefined && parentId !== null && treeModel.getNode(storeRef.current, parentId)?.childrenCursor) {
+        if (signal?.aborted || !(await loadMore(parentId))) return null;
+        childId = findChild(storeRef.current, parentId);
+      }
+      if (childId === undefined || signal?.aborted) return null;
+      ids.push(childId);
+      parentId = childId;
+    }
+    return ids;
+  }, [ensureChildrenLoaded, loadMore]);
+
+  // --- Expansion ---
+
+  const setExpanded = useCallback((nodeId: string, isExpanded: boolean) => {
+    const record = treeModel.getNode(storeRef.current, nodeId);
+    if (!record) return;
+    applyChange(prevStore => treeModel.toggle(prevStore, nodeId, isExpanded), { type: 'expand', nodeId, isExpanded });
+
+    if (isExpanded && record.childIds === true) {
+      if (!loadControllers.current.has(nodeId)) loadNode(nodeId);
+    } else if (!isExpanded && loadControllers.current.has(nodeId)) {
+      // Collapsing mid-load cancels the request; the node stays lazy and reloads on next expand
+      abortLoad(nodeId);
+      setNodeLoadState(nodeId, { status: record.childIds === true ? 'idle' : 'loaded' });
+    }
+  }, [applyChange, loadNode, abortLoad, setNodeLoadState]);
+
+  const bulkExpand = useBulkExpand({
+    storeRef,
+    applyChange,
+    loadNode,
+    cancelLoad: nodeId => setExpanded(nodeId, false),
+    concurrency: expandConcurrency,
+  });
+  const { expandBranch, collapseBranch, expandToDepth, cancel: cancelExpand } = bulkExpand;
+
+  // Flips a node open or closed; isBranch does the same to every descendant, loading lazy ones on the way
+  const toggle = useCallback((nodeId: string, isBranch: boolean = false) => {
+    const record = treeModel.getNode(storeRef.current, nodeId);
+    if (!record) return;
+    if (!isBranch) {
+      setExpanded(nodeId, !record.isExpanded);
+    } else if (record.isExpanded) {
+      collapseBranch(nodeId);
+    } else {
+      expandBranch(nodeId);
+    }
+  }, [setExpanded, expandBranch, collapseBranch]);
+
+  // --- Edits ---
+
+  // Swaps in a whole new tree; in-flight loads and the undo history belong to the old one
+  const replace = useCallback((nextTree: TreeData<T>) => {
+    loadControllers.current.forEach(controller => controller.abort());
+    loadControllers.current.clear();
+    setLoadStates({});
+    applyChange(() => treeModel.createModel(nextTree), { type: 'replace', tree: nextTree });
+    historyRef.current = treeHistory.emptyHistory;
+  }, [applyChange]);
+
+  // Each edit is one undo step and returns the command that was run, or null if it didn't apply
+  const insert = useCallback((parentId: string | null, node: ITreeNode<T>, index?: number): TreeCommand | null => {
+    const command = treeModel.createInsertCommand(storeRef.current, parentId, node, index);
+    return execute(command) ? command : null;
+  }, [execute]);
+
+  const remove = useCallback((nodeIds: string[]): TreeCommand | null => {
+    treeModel.getTopLevelIds(storeRef.current, nodeIds).forEach(abortLoad);
+    const command = treeModel.createRemoveCommand(storeRef.current, nodeIds);
+    return execute(command) ? command : null;
+  }, [abortLoad, execute]);
+
+  const rename = useCallback((nodeId: string, name: string): TreeCommand | null => {
+    const command = treeModel.createRenameCommand(storeRef.current, nodeId, name);
+    return execute(command) ? command : null;
+  }, [execute]);
+
+  // Loads an unloaded lazy drop parent first, so the nodes join its real children. Resolves to false if the
+  // move isn't possible; nodes already at the target count as moved.
+  const move = useCallback(async (nodeIds: string[], targetNodeId: string | null, position: DropPosition): Promise<boolean> => {
+    if (!(await ensureChildrenLoaded(treeModel.getDropParentId(storeRef.current, targetNodeId, position)))) return false;
+    if (!treeModel.canMove(storeRef.current, nodeIds, targetNodeId)) return false;
+    execute(treeModel.createMoveCommand(storeRef.current, nodeIds, targetNodeId, position));
+    return true;
+  }, [ensureChildrenLoaded, execute]);
+
+  // --- Prop Getters ---
+
+  // A row: its ARIA tree item (or treegrid row) attributes and a native drag source
+  const getNodeProps = useCallback((node: ITreeNode, { level, posInSet, setSize, role = 'treeitem', onDragStart, onDragEnd }: NodePropsOptions): NodeProps => ({
+    'data-node-id': node.id,
+    role,
+    'aria-level': level + 1,
+    'aria-posinset': posInSet,
+    'aria-setsize': setSize,
+    'aria-expanded': hasChildNodes(node) ? node.isExpanded ?? false : undefined,
+    'aria-busy': loadStatesRef.current[node.id]?.status === 'loading' || undefined,
+    draggable: true,
+    onDragStart: (event: React.DragEvent<HTMLElement>) => {
+      event.stopPropagation(); // Rows may be nested inside each other
+      const ids = onDragStart ? onDragStart(event) : [node.id];
+      if (!ids) {
+        event.preventDefault();
+        return;
+      }
+      setDraggedItem({ id: node.id, parentId: node.parentId, ids });
+    },
+    onDragEnd: (event: React.DragEvent<HTMLElement>) => {
+      setDraggedItem(null);
+      onDragEnd?.(event);
+    },
+  }), []);
+
+  // An expand toggle; Shift+click toggles the whole branch
+  const getToggleProps = useCallback((node: ITreeNode, { onClick }: ToggleOptions = {}): ToggleProps => ({
+    onClick: (event: React.MouseEvent<HTMLElement>) => {
+      onClick?.(event);
+      if (!event.defaultPrevented) toggle(node.id, event.shiftKey);
+    },
+  }), [toggle]);
+
+  // Somewhere nodes can be dropped: a row (targetNodeId) or the tree's background (null, for root-level drops).
+  // By default it takes the nodes dragged from this tree's rows, if the model lets them move there.
+  const getDropZoneProps = useCallback((targetNodeId: string | null, { position = 'child', canDrop, onDrop }: DropZoneOptions = {}): DropZoneProps => {
+    const getPosition = (event: React.DragEvent<HTMLElement>) => (typeof position === 'function' ? position(event) : position);
+    return {
+      onDragOver: (event: React.DragEvent<HTMLElement>) => {
+        event.preventDefault(); // A refused drop still needs this, so dropEffect 'none' can tell the source
+        event.stopPropagation(); // The innermost drop zone decides
+        const dropPosition = getPosition(event);
+        const dragged = draggedItemRef.current;
+        const isAllowed = canDrop
+          ? canDrop(event, dropPosition)
+          : !!dragged && treeModel.canMove(storeRef.current, dragged.ids ?? [dragged.id], targetNodeId);
+        if (!isAllowed) {
+          event.dataTransfer.dropEffect = 'none';
+        } else if (!canDrop) {
+          event.dataTransfer.dropEffect = 'move';
+        }
+      },
+      onDrop: (event: React.DragEvent<HTMLElement>) => {
+        event.preventDefault();
+        event.stopPropagation();
+        const dropPosition = getPosition(event);
+        const dragged = draggedItemRef.current;
+        if (onDrop) {
+          onDrop(event, dropPosition);
+        } else if (dragged) {
+          move(dragged.ids ?? [dragged.id], targetNodeId, dropPosition);
+        }
+        setDraggedItem(null);
+      },
+    };
+  }, [move]);
+
+  return {
+    store,
+    tree,
+    storeRef,
+    historyRef,
+    applyChange,
+    execute,
+    step,
+    loadStates,
+    loadNode,
+    loadMore,
+    ensureChildrenLoaded,
+    loadPath,
+    replaceLoadStateId,
+    setExpanded,
+    toggle,
+    expandBranch,
+    collapseBranch,
+    expandToDepth,
+    cancelExpand,
+    expandProgress: bulkExpand.progress,
+    replace,
+    insert,
+    remove,
+    rename,
+    move,
+    draggedItem,
+    setDraggedItem,
+    getNodeProps,
+    getToggleProps,
+    getDropZoneProps,
+  };
+};
@@ -0,0 +1,49 @@
+// src/useTreeOperations.ts
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { TreeChange, TreeOperation, TreeTransport } from './types';
+import { TreeStore } from './treeStore';
+import * as treeOperations from './treeOperations';
+import { TreeCommand } from './treeHistory';
+
+interface TreeOperationsOptions {
+  actorId: string; // Read once, on mount
+  transport?: TreeTransport;
+  onOperations?: (operations: TreeOperation[]) => void;
+  applyChange: (updater: (prevStore: TreeStore) => TreeStore, change: TreeChange) => boolean;
+}
+
+// Streams local edits to other replicas as operations and merges theirs into the store. Remote edits
+// bypass the undo history and the sync callbacks: the replica that made them owns both.
+export const useTreeOperations = ({ actorId, transport, onOperations, applyChange }: TreeOperationsOptions) => {
+  const [replicaState] = useState(() => treeOperations.createReplicaState(actorId)); // Updated in place
+
+  const transportRef = useRef(transport);
+  transportRef.current = transport;
+  const onOperationsRef = useRef(onOperations);
+  onOperationsRef.current = onOperations;
+
+  // Sends a command that has just been applied (an edit, an undo or redo step or a rollback) on top of prevStore
+  const track = useCallback((command: TreeCommand, prevStore: TreeStore) => {
+    if (!transportRef.current && !onOperationsRef.current) return;
+    const operations = treeOperations.toOperations(replicaState, prevStore, command);
+    if (operations.length === 0) return;
+    onOperationsRef.current?.(operations);
+    transportRef.current?.send(operations);
+  }, [replicaState]);
+
+  const applyRemote = useCallback((operations: TreeOperation[]) => {
+    const changes: TreeChange[] = []; // Filled in by the updater, which runs before the change is reported
+    applyChange(prevStore => operations.reduce((currentStore, operation) => {
+      const { store, change } = treeOperations.applyOperation(replicaState, currentStore, operation);
+      if (change) changes.push(change);
+      return store;
+    }, prevStore), { type: 'batch', changes });
+  }, [replicaState, applyChange]);
+
+  // The keys describe the old tree once it has been replaced wholesale
+  const reset = useCallback(() => treeOperations.resetKeys(replicaState), [replicaState]);
+
+  useEffect(() => transport?.subscribe(applyRemote), [transport, applyRemote]);
+
+  return { track, applyRemote, reset };
+};
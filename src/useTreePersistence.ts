@@ -0,0 +1,89 @@
+// src/useTreePersistence.ts
+import { useState, useEffect, useRef } from 'react';
+import { PersistedTreeState, PersistOptions, TreeViewError } from './types';
+import { TreeStore } from './treeStore';
+import { createLocalStorageAdapter, createPersistedState, parsePersistedState, DEFAULT_PERSIST_VERSION } from './treePersistence';
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+interface TreePersistenceOptions {
+  store: TreeStore;
+  selectedIds: string[];
+  onRestore: (state: PersistedTreeState) => void; // Called with the migrated state when something was stored under the key
+  onError: (error: TreeViewError) => void; // The stored state couldn't be read or used, or a save failed
+}
+
+// Helper to describe a storage failure to onError
+const toPersistError = (source: 'restore' | 'save', message: string, error: unknown): TreeViewError => ({
+  source,
+  message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+  error,
+});
+
+// Restores the saved state when mounted (or when the key changes), then saves every change after a pause
+export const useTreePersistence = (persist: PersistOptions | undefined, { store, selectedIds, onRestore, onError }: TreePersistenceOptions) => {
+  const [restoredKey, setRestoredKey] = useState<string | null>(null); // Writes wait until the stored state has been read
+  const pendingWriteRef = useRef<(() => void) | null>(null);
+
+  const persistRef = useRef(persist);
+  persistRef.current = persist;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const key = persist?.key;
+  const storage = persist?.storage;
+  const version = persist?.version ?? DEFAULT_PERSIST_VERSION;
+  const uiStateOnly = persist?.uiStateOnly ?? false;
+  const debounceMs = persist?.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  useEffect(() => {
+    if (key === undefined) return;
+    let isCancelled = false;
+
+    const restore = async () => {
+      try {
+        const value = await (storage ?? createLocalStorageAdapter()).getItem(key);
+        if (isCancelled) return;
+        const parsed = value === null ? null : parsePersistedState(value, version, persistRef.current?.migrations);
+        if (parsed?.state) onRestoreRef.current(parsed.state);
+        if (parsed?.error) onErrorRef.current({ source: 'restore', message: parsed.error, error: null });
+      } catch (error) {
+        onErrorRef.current(toPersistError('restore', 'Failed to read persisted tree state', error));
+      }
+      if (!isCancelled) setRestoredKey(key);
+    };
+    restore();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [key, storage, version]);
+
+  // Debounced write of the latest state
+  useEffect(() => {
+    if (key === undefined || restoredKey !== key) return;
+    const write = () => {
+      pendingWriteRef.current = null;
+      const value = JSON.stringify(createPersistedState(store, selectedIds, version, !uiStateOnly));
+      // Covers both adapters that throw (e.g. a full localStorage) and ones that reject
+      Promise.resolve()
+        .then(() => (storage ?? createLocalStorageAdapter()).setItem(key, value))
+        .catch(error => onErrorRef.current(toPersistError('save', 'Failed to persist tree state', error)));
+    };
+    pendingWriteRef.current = write;
+    const timeoutId = window.setTimeout(write, debounceMs);
+    return () => window.clearTimeout(timeoutId);
+  }, [key, storage, version, uiStateOnly, debounceMs, restoredKey, store, selectedIds]);
+
+  // Don't lose the last change to a reload or an unmount that lands inside the debounce window
+  useEffect(() => {
+    const flush = () => pendingWriteRef.current?.();
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+};
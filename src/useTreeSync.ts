@@ -0,0 +1,134 @@
+// src/useTreeSync.ts
+import { useState, useCallback, useRef, RefObject } from 'react';
+import { TreeChange, TreeSyncCallbacks } from './types';
+import * as treeStore from './treeStore';
+import { TreeStore } from './treeStore';
+import * as treeHistory from './treeHistory';
+import { TreeCommand, TreeHistory } from './treeHistory';
+
+interface TreeSyncOptions {
+  historyRef: RefObject<TreeHistory>;
+  applyChange: (updater: (prevStore: TreeStore) => TreeStore, change: TreeChange) => boolean;
+  onIdChange: (nodeId: string, newId: string) => void; // Lets the view move selection, focus and the like to the new id
+  onRollBack?: (inverse: TreeCommand) => void; // Called just before the inverse of a rejected command is applied
+}
+
+// Helper to pick the row that shows a command as pending: the node itself, or the parent of a removed node
+const getPendingId = (command: TreeCommand): string | null => {
+  switch (command.type) {
+    case 'add':
+      return command.node.id;
+    case 'remove':
+      return command.node.parentId;
+    case 'move':
+    case 'rename':
+      return command.nodeId;
+    default:
+      return null;
+  }
+};
+
+// Helper to update a per-node map in state without touching other entries
+const withEntry = <V>(map: ReadonlyMap<string | null, V>, key: string | null, value: V | undefined) => {
+  const nextMap = new Map(map);
+  if (value === undefined) {
+    nextMap.delete(key);
+  } else {
+    nextMap.set(key, value);
+  }
+  return nextMap;
+};
+
+// Sends every applied command to the backend callbacks, one at a time, and rolls back the ones that are rejected
+export const useTreeSync = (callbacks: TreeSyncCallbacks, { historyRef, applyChange, onIdChange, onRollBack }: TreeSyncOptions) => {
+  const [pendingCounts, setPendingCounts] = useState<ReadonlyMap<string | null, number>>(new Map()); // Unsettled calls per row
+  const [errors, setErrors] = useState<ReadonlyMap<string | null, string>>(new Map()); // Per row; null for root-level adds
+
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const serverIdsRef = useRef(new Map<string, string>()); // Temporary id -> server id
+  const rowKeysRef = useRef(new Map<string, string>()); // Server id -> the temporary id the row was first rendered with
+  const rejectedIdsRef = useRef(new Set<string>()); // Nodes whose add was rolled back; later calls about them are dropped
+
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+  const onIdChangeRef = useRef(onIdChange);
+  onIdChangeRef.current = onIdChange;
+  const onRollBackRef = useRef(onRollBack);
+  onRollBackRef.current = onRollBack;
+
+  const resolveId = useCallback((nodeId: string) => {
+    let currentId = nodeId;
+    while (serverIdsRef.current.has(currentId)) currentId = serverIdsRef.current.get(currentId) as string;
+    return currentId;
+  }, []);
+
+  // A stable React key for a node, so swapping in its server id doesn't remount the row
+  const getNodeKey = useCallback((nodeId: string) => rowKeysRef.current.get(nodeId) ?? nodeId, []);
+
+  const changePending = useCallback((nodeId: string | null, delta: number) => {
+    setPendingCounts(prevCounts => {
+      const count = (prevCounts.get(nodeId) ?? 0) + delta;
+      return withEntry(prevCounts, nodeId, count > 0 ? count : undefined);
+    });
+  }, []);
+
+  const replaceId = useCallback((nodeId: string, newId: string) => {
+    if (!applyChange(prevStore => treeStore.replaceId(prevStore, nodeId, newId), { type: 'change-id', nodeId, newId })) return;
+    serverIdsRef.current.set(nodeId, newId);
+    rowKeysRef.current.set(newId, getNodeKey(nodeId));
+    historyRef.current = treeHistory.replaceNodeId(historyRef.current, nodeId, newId);
+    setPendingCounts(prevCounts => withEntry(withEntry(prevCounts, nodeId, undefined), newId, prevCounts.get(nodeId)));
+    setErrors(prevErrors => withEntry(withEntry(prevErrors, nodeId, undefined), newId, prevErrors.get(nodeId)));
+    onIdChangeRef.current(nodeId, newId);
+  }, [applyChange, historyRef, getNodeKey]);
+
+  // Undoes a rejected command against the current tree and drops it from the history
+  const rollBack = useCallback((command: TreeCommand, message: string) => {
+    const inverse = treeHistory.invertCommand(command);
+    onRollBackRef.current?.(inverse);
+    applyChange(prevStore => treeHistory.applyCommand(prevStore, inverse), treeHistory.toTreeChange(inverse));
+    historyRef.current = treeHistory.forgetCommand(historyRef.current, command);
+    if (command.type === 'add') rejectedIdsRef.current.add(command.node.id);
+    const errorRowId = command.type === 'add' ? command.position.parentId : command.type === 'remove' ? command.node.id : getPendingId(command);
+    setErrors(prevErrors => withEntry(prevErrors, errorRowId, message));
+  }, [applyChange, historyRef]);
+
+  const send = useCallback(async (queuedCommand: TreeCommand) => {
+    const command = treeHistory.mapCommandIds(queuedCommand, resolveId); // Ids may have been replaced while it waited
+    const pendingId = getPendingId(command);
+    const { onAdd, onRename, onRemove, onMove } = callbacksRef.current;
+    try {
+      if (treeHistory.getReferencedIds(command).some(id => rejectedIdsRef.current.has(id))) return;
+      if (command.type === 'add') {
+        const serverId = await onAdd?.(command.node, command.position.parentId, command.position.index);
+        if (typeof serverId === 'string' && serverId !== command.node.id) replaceId(command.node.id, serverId);
+      } else if (command.type === 'remove') {
+        await onRemove?.(command.node.id);
+      } else if (command.type === 'rename') {
+        await onRename?.(command.nodeId, command.to);
+      } else if (command.type === 'move') {
+        await onMove?.(command.nodeId, command.to.parentId, command.to.index);
+      }
+    } catch (error) {
+      rollBack(command, error instanceof Error ? error.message : String(error));
+    } finally {
+      changePending(pendingId === null ? null : resolveId(pendingId), -1);
+    }
+  }, [resolveId, replaceId, rollBack, changePending]);
+
+  // Queues the single-node commands of a command that has just been applied (including undo and redo steps)
+  const track = useCallback((command: TreeCommand) => {
+    const { onAdd, onRename, onRemove, onMove } = callbacksRef.current;
+    if (!onAdd && !onRename && !onRemove && !onMove) return;
+    treeHistory.flattenCommand(command).forEach(singleCommand => {
+      changePending(getPendingId(singleCommand), 1);
+      queueRef.current = queueRef.current.then(() => send(singleCommand));
+    });
+  }, [send, changePending]);
+
+  const dismissError = useCallback((nodeId: string | null) => {
+    setErrors(prevErrors => withEntry(prevErrors, nodeId, undefined));
+  }, []);
+
+  return { track, pendingCounts, errors, dismissError, getNodeKey };
+};
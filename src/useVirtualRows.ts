@@ -0,0 +1,125 @@
+// src/useVirtualRows.ts
+import { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef, RefObject } from 'react';
+
+interface VirtualRowsOptions {
+  enabled: boolean;
+  rowKeys: string[]; // One stable key per row, in display order
+  estimatedRowHeight: number; // Used for rows that have not been measured yet
+  overscan: number; // Extra rows rendered above and below the viewport
+}
+
+export interface VirtualRows {
+  startIndex: number; // First rendered row (inclusive)
+  endIndex: number; // Last rendered row (exclusive)
+  totalHeight: number;
+  getRowOffset: (index: number) => number;
+  scrollToIndex: (index: number) => void;
+}
+
+// Rows must be rendered with a data-row-key attribute inside the scroll container so they can be measured
+const ROW_KEY_ATTRIBUTE = 'data-row-key';
+
+// Helper to find the last row whose top offset is at or above the given position (binary search)
+const findRowAtOffset = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2; // offsets has one more entry than there are rows
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(low, 0);
+};
+
+// Windowing for a vertical list of variable-height rows: only rows in the viewport (plus overscan) are rendered
+export const useVirtualRows = (scrollRef: RefObject<HTMLElement | null>, { enabled, rowKeys, estimatedRowHeight, overscan }: VirtualRowsOptions): VirtualRows => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0); // Bumped whenever a measured height changes
+  const rowHeights = useRef(new Map<string, number>());
+
+  // offsets[i] is the top of row i; offsets[rowKeys.length] is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(rowKeys.length + 1);
+    result[0] = 0;
+    rowKeys.forEach((key, index) => {
+      result[index + 1] = result[index] + (rowHeights.current.get(key) ?? estimatedRowHeight);
+    });
+    return result;
+    // measureVersion invalidates the memo when rowHeights (a ref) changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rowKeys, estimatedRowHeight, measureVersion]);
+
+  useEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (!enabled || !scrollElement) return;
+
+    const handleScroll = () => setScrollTop(scrollElement.scrollTop);
+    const resizeObserver = new ResizeObserver(() => setViewportHeight(scrollElement.clientHeight));
+    scrollElement.addEventListener('scroll', handleScroll, { passive: true });
+    resizeObserver.observe(scrollElement);
+    handleScroll();
+    setViewportHeight(scrollElement.clientHeight);
+
+    return () => {
+      scrollElement.removeEventListener('scroll', handleScroll);
+      resizeObserver.disconnect();
+    };
+  }, [enabled, scrollRef]);
+
+  // Measure the rendered rows after every render, and again whenever one of them resizes on its own
+  useLayoutEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (!enabled || !scrollElement) return;
+
+    const measureRows = (elements: HTMLElement[]) => {
+      let changed = false;
+      elements.forEach(element => {
+        const key = element.getAttribute(ROW_KEY_ATTRIBUTE);
+        const height = element.offsetHeight;
+        if (key && height > 0 && rowHeights.current.get(key) !== height) {
+          rowHeights.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion(version => version + 1);
+    };
+
+    const rowElements = Array.from(scrollElement.querySelectorAll<HTMLElement>(`[${ROW_KEY_ATTRIBUTE}]`));
+    measureRows(rowElements);
+
+    const resizeObserver = new ResizeObserver(entries => measureRows(entries.map(entry => entry.target as HTMLElement)));
+    rowElements.forEach(element => resizeObserver.observe(element));
+    return () => resizeObserver.disconnect();
+  });
+
+  const rowCount = rowKeys.length;
+  const startIndex = Math.max(findRowAtOffset(offsets, scrollTop) - overscan, 0);
+  const endIndex = Math.min(findRowAtOffset(offsets, scrollTop + viewportHeight) + 1 + overscan, rowCount);
+
+  const getRowOffset = useCallback((index: number) => offsets[index] ?? 0, [offsets]);
+
+  // Scrolls the least distance needed to bring the row fully into view
+  const scrollToIndex = useCallback((index: number) => {
+    const scrollElement = scrollRef.current;
+    if (!scrollElement || index < 0 || index >= rowCount) return;
+    const rowTop = offsets[index];
+    const rowBottom = offsets[index + 1];
+    if (rowTop < scrollElement.scrollTop) {
+      scrollElement.scrollTop = rowTop;
+    } else if (rowBottom > scrollElement.scrollTop + scrollElement.clientHeight) {
+      scrollElement.scrollTop = rowBottom - scrollElement.clientHeight;
+    }
+  }, [scrollRef, offsets, rowCount]);
+
+  return {
+    startIndex: enabled ? startIndex : 0,
+    endIndex: enabled ? endIndex : rowCount,
+    totalHeight: offsets[rowCount],
+    getRowOffset,
+    scrollToIndex,
+  };
+};